@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "guestScreenShare" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "SpeakingTime" (
+    "id" TEXT NOT NULL,
+    "totalMs" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+
+    CONSTRAINT "SpeakingTime_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SpeakingTime_userId_roomId_key" ON "SpeakingTime"("userId", "roomId");
+
+-- AddForeignKey
+ALTER TABLE "SpeakingTime" ADD CONSTRAINT "SpeakingTime_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SpeakingTime" ADD CONSTRAINT "SpeakingTime_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
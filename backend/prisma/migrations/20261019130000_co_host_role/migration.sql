@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "ParticipantRole" ADD VALUE 'CO_HOST';
@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "ChatMode" AS ENUM ('EVERYONE', 'HOSTS_ONLY', 'DISABLED');
+
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "chatMode" "ChatMode" NOT NULL DEFAULT 'EVERYONE',
+ADD COLUMN     "guestUnmute" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "isLocked" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Recording" ADD COLUMN     "checksum" TEXT,
+ADD COLUMN     "storageKey" TEXT;
+
+-- CreateTable
+CREATE TABLE "RecordingChunk" (
+    "id" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "size" INTEGER NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "recordingId" TEXT NOT NULL,
+
+    CONSTRAINT "RecordingChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecordingChunk_recordingId_sequence_key" ON "RecordingChunk"("recordingId", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "RecordingChunk" ADD CONSTRAINT "RecordingChunk_recordingId_fkey" FOREIGN KEY ("recordingId") REFERENCES "Recording"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Recording" ADD COLUMN     "sessionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RecordingSession" (
+    "id" TEXT NOT NULL,
+    "take" INTEGER NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "stoppedAt" TIMESTAMP(3),
+    "roomId" TEXT NOT NULL,
+    "startedById" TEXT NOT NULL,
+
+    CONSTRAINT "RecordingSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecordingSession_roomId_take_key" ON "RecordingSession"("roomId", "take");
+
+-- AddForeignKey
+ALTER TABLE "Recording" ADD CONSTRAINT "Recording_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "RecordingSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecordingSession" ADD CONSTRAINT "RecordingSession_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecordingSession" ADD CONSTRAINT "RecordingSession_startedById_fkey" FOREIGN KEY ("startedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
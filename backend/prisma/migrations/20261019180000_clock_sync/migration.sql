@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Recording" ADD COLUMN     "clockOffsetMs" DOUBLE PRECISION,
+ADD COLUMN     "clockRttMs" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "ClockSyncSample" (
+    "id" TEXT NOT NULL,
+    "offsetMs" DOUBLE PRECISION NOT NULL,
+    "rttMs" DOUBLE PRECISION NOT NULL,
+    "measuredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sessionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "ClockSyncSample_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ClockSyncSample_sessionId_userId_idx" ON "ClockSyncSample"("sessionId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "ClockSyncSample" ADD CONSTRAINT "ClockSyncSample_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "RecordingSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClockSyncSample" ADD CONSTRAINT "ClockSyncSample_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
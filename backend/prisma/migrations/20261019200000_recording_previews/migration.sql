@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "JobKind" ADD VALUE 'GENERATE_PREVIEWS';
+
+-- AlterTable
+ALTER TABLE "Recording" ADD COLUMN     "posterKey" TEXT,
+ADD COLUMN     "spriteKey" TEXT,
+ADD COLUMN     "spriteLayout" JSONB,
+ADD COLUMN     "waveformKey" TEXT;
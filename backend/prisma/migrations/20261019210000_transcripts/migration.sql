@@ -0,0 +1,29 @@
+-- AlterEnum
+ALTER TYPE "JobKind" ADD VALUE 'TRANSCRIBE';
+
+-- AlterTable
+ALTER TABLE "Recording" ADD COLUMN     "startedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "Transcript" (
+    "id" TEXT NOT NULL,
+    "engine" TEXT NOT NULL,
+    "language" TEXT,
+    "text" TEXT NOT NULL,
+    "segments" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "recordingId" TEXT NOT NULL,
+    "speakerId" TEXT NOT NULL,
+
+    CONSTRAINT "Transcript_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Transcript_recordingId_key" ON "Transcript"("recordingId");
+
+-- AddForeignKey
+ALTER TABLE "Transcript" ADD CONSTRAINT "Transcript_recordingId_fkey" FOREIGN KEY ("recordingId") REFERENCES "Recording"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transcript" ADD CONSTRAINT "Transcript_speakerId_fkey" FOREIGN KEY ("speakerId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "RecordingAccess" AS ENUM ('VIEW', 'DOWNLOAD');
+
+-- CreateTable
+CREATE TABLE "RecordingGrant" (
+    "id" TEXT NOT NULL,
+    "access" "RecordingAccess" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "recordingId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "grantedById" TEXT NOT NULL,
+
+    CONSTRAINT "RecordingGrant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecordingGrant_recordingId_userId_key" ON "RecordingGrant"("recordingId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "RecordingGrant" ADD CONSTRAINT "RecordingGrant_recordingId_fkey" FOREIGN KEY ("recordingId") REFERENCES "Recording"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecordingGrant" ADD CONSTRAINT "RecordingGrant_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecordingGrant" ADD CONSTRAINT "RecordingGrant_grantedById_fkey" FOREIGN KEY ("grantedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
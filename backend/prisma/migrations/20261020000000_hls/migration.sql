@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "JobKind" ADD VALUE 'PACKAGE_HLS';
+
+-- AlterTable
+ALTER TABLE "Recording" ADD COLUMN     "hlsKey" TEXT;
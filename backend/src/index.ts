@@ -6,6 +6,14 @@ import authRoutes from "./routes/auth.js";
 import userRoutes from "./routes/users.js";
 import roomRoutes from "./routes/rooms.js";
 import recordingRoutes from "./routes/recordings.js";
+import iceRoutes from "./routes/ice.js";
+import fileRoutes from "./routes/files.js";
+import shareRoutes from "./routes/shares.js";
+import { hlsJob } from "./services/hls.js";
+import { startJobWorkers } from "./services/jobs.js";
+import { previewsJob } from "./services/previews.js";
+import { processRecordingJob } from "./services/processing.js";
+import { transcriptionJob } from "./services/transcripts.js";
 import { setupSocketServer } from "./socket/index.js";
 
 dotenv.config();
@@ -18,7 +26,7 @@ app.use(cors());
 app.use(express.json());
 
 // Set up Socket.io
-const io = setupSocketServer(httpServer);
+const io = await setupSocketServer(httpServer);
 
 app.get("/health", (_req, res) => {
     res.json({ status: "ok", timestamp: new Date().toISOString() });
@@ -28,8 +36,18 @@ app.use("/api/auth", authRoutes);
 app.use("/api/users", userRoutes);
 app.use("/api/rooms", roomRoutes);
 app.use("/api/recordings", recordingRoutes);
+app.use("/api/ice-servers", iceRoutes);
+app.use("/api/files", fileRoutes);
+app.use("/api/shares", shareRoutes);
 
 httpServer.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`);
     console.log(`WebSocket server`);
 });
+
+startJobWorkers({
+    PROCESS_RECORDING: processRecordingJob,
+    GENERATE_PREVIEWS: previewsJob,
+    TRANSCRIBE: transcriptionJob,
+    PACKAGE_HLS: hlsJob,
+});
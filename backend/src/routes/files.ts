@@ -0,0 +1,36 @@
+import { Router, Request, Response } from "express";
+import { getLocalStorage } from "../services/storage.js";
+
+const router = Router();
+
+// Public, but only with a valid signature: serves the URLs the local storage
+// driver signs. With S3 storage clients download from the bucket directly.
+router.get("/*", (req: Request, res: Response) => {
+  const storage = getLocalStorage();
+  if (!storage) {
+    res.status(404).json({ message: "File not found" });
+    return;
+  }
+
+  const key = (req.params as Record<string, string>)[0];
+  const expires = Number(req.query.expires);
+  const downloadName = typeof req.query.name === "string" ? req.query.name : "";
+  const signature = typeof req.query.signature === "string" ? req.query.signature : "";
+
+  if (!storage.verify(key, expires, downloadName, signature)) {
+    res.status(403).json({ message: "Invalid or expired link" });
+    return;
+  }
+
+  if (downloadName) {
+    res.attachment(downloadName);
+  }
+  // sendFile handles Range requests, so media players can seek
+  res.sendFile(storage.resolve(key), (error) => {
+    if (error && !res.headersSent) {
+      res.status(404).json({ message: "File not found" });
+    }
+  });
+});
+
+export default router;
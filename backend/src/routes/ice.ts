@@ -0,0 +1,28 @@
+import { Router, Response } from "express";
+import prisma from "../db.js";
+import { authMiddleware, AuthRequest } from "../middleware/auth.js";
+import { getIceServerConfig } from "../services/turn.js";
+
+const router = Router();
+
+// Protected: ICE server config for a room the caller is currently in
+router.get("/:roomId", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const roomId = req.params.roomId as string;
+
+  try {
+    const participant = await prisma.participant.findUnique({
+      where: { userId_roomId: { userId: req.user!.userId, roomId } },
+    });
+    if (!participant || participant.leftAt) {
+      res.status(403).json({ message: "You are not a participant in this room" });
+      return;
+    }
+
+    res.set("Cache-Control", "no-store");
+    res.json({ data: getIceServerConfig(req.user!.userId) });
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch ICE servers" });
+  }
+});
+
+export default router;
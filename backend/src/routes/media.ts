@@ -0,0 +1,68 @@
+import { Request, Response } from "express";
+import { text } from "stream/consumers";
+import { pipeline } from "stream/promises";
+import type { StorageDriver } from "../services/storage.js";
+
+// Serves a stored file with HTTP Range support, so players can seek without fetching
+// the whole thing. Requests for several ranges at once get the whole file.
+export async function sendStoredMedia(
+  req: Request,
+  res: Response,
+  storage: StorageDriver,
+  key: string,
+  contentType: string
+) {
+  const size = await storage.getSize(key);
+  if (size === null) {
+    res.status(404).json({ message: "File not found" });
+    return;
+  }
+
+  const ranges = req.range(size, { combine: true });
+  if (ranges === -1) {
+    res.status(416).set("Content-Range", `bytes */${size}`).end();
+    return;
+  }
+  const range = Array.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1 ? ranges[0] : undefined;
+
+  // Opened before any headers go out, so a storage error can still become a 500
+  const stream = req.method === "HEAD" ? null : await storage.createReadStream(key, range);
+
+  res.set({
+    "Accept-Ranges": "bytes",
+    "Cache-Control": "private, no-cache",
+    "Content-Type": contentType,
+    "Content-Length": String(range ? range.end - range.start + 1 : size),
+  });
+  if (range) {
+    res.status(206).set("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+  }
+  if (!stream) {
+    res.end();
+    return;
+  }
+
+  try {
+    await pipeline(stream, res);
+  } catch {
+    // The player hung up mid-file, usually to seek elsewhere
+  }
+}
+
+// Serves a stored HLS playlist after passing it through `transform`, e.g. to sign
+// its segment URIs. Playlists are small, so they are read whole.
+export async function sendPlaylist(
+  res: Response,
+  storage: StorageDriver,
+  key: string,
+  transform: (playlist: string) => string
+) {
+  if ((await storage.getSize(key)) === null) {
+    res.status(404).json({ message: "File not found" });
+    return;
+  }
+
+  const playlist = await text(await storage.createReadStream(key));
+  res.set({ "Cache-Control": "private, no-cache", "Content-Type": "application/vnd.apple.mpegurl" });
+  res.send(transform(playlist));
+}
@@ -1,10 +1,72 @@
-import { Router, Response } from "express";
+import express, { Router, Request, Response } from "express";
+import path from "path";
+import type { Recording } from "@prisma/client";
 import prisma from "../db.js";
-import { CreateRecordingSchema, UpdateRecordingSchema } from "../schemas.js";
+import {
+  CreateRecordingSchema,
+  FinalizeUploadSchema,
+  RecordingGrantSchema,
+  RoomTranscriptQuerySchema,
+  TranscriptQuerySchema,
+  UpdateRecordingSchema,
+  UploadChunkSchema,
+} from "../schemas.js";
 import { authMiddleware, AuthRequest } from "../middleware/auth.js";
+import { getClockSyncStats } from "../services/clockSync.js";
+import { ServiceError, httpStatusOf } from "../services/errors.js";
+import { authorizeRoomMember } from "../services/permissions.js";
+import { HLS_PLAYLIST, hasVideoRendition, hlsContentType, hlsFileKey } from "../services/hls.js";
+import {
+  findPlayableRecording,
+  getPlaybackUrls,
+  playbackQuery,
+  playbackSignatureOf,
+  signPlaylist,
+} from "../services/playback.js";
+import { cancelJobs } from "../services/jobs.js";
+import { getPreviewUrls } from "../services/previews.js";
+import {
+  authorizeRecording,
+  grantRecordingAccess,
+  listRecordingGrants,
+  revokeRecordingAccess,
+  visibleRoomRecordingsWhere,
+} from "../services/recordingAccess.js";
+import { getStorage, recordingPrefix, signedUrlTtl } from "../services/storage.js";
+import {
+  SpeakerSegment,
+  TranscriptFormat,
+  getRecordingTranscript,
+  getRoomTranscript,
+  toPlainText,
+  toSrt,
+  toWebVtt,
+} from "../services/transcripts.js";
+import { MAX_CHUNK_BYTES, discardUpload, finalizeUpload, getUploadState, storeChunk } from "../services/uploads.js";
+import { publicUserSelect } from "../services/users.js";
+import { sendPlaylist, sendStoredMedia } from "./media.js";
 
 const router = Router();
 
+// Uploads are only accepted from the participant who made the recording
+async function findOwnRecording(req: AuthRequest, res: Response) {
+  const recording = await prisma.recording.findUnique({ where: { id: req.params.id as string } });
+  if (!recording) {
+    res.status(404).json({ message: "Recording not found" });
+    return null;
+  }
+  if (recording.userId !== req.user!.userId) {
+    res.status(403).json({ message: "You can only upload to your own recordings" });
+    return null;
+  }
+  return recording;
+}
+
+// Adds signed preview URLs (waveform, poster, thumbnail sprite) to each recording
+function withPreviews<T extends Recording>(recordings: T[]) {
+  return Promise.all(recordings.map(async (recording) => ({ ...recording, previews: await getPreviewUrls(recording) })));
+}
+
 // Protected: Get all recordings (user's own recordings)
 router.get("/", authMiddleware, async (req: AuthRequest, res: Response) => {
   try {
@@ -12,50 +74,98 @@ router.get("/", authMiddleware, async (req: AuthRequest, res: Response) => {
       where: { userId: req.user!.userId },
       include: {
         room: { select: { id: true, title: true } },
-        user: { select: { id: true, name: true, avatarUrl: true } },
+        user: { select: publicUserSelect },
       },
       orderBy: { createdAt: "desc" },
     });
-    res.json({ data: recordings });
+    res.json({ data: await withPreviews(recordings) });
   } catch (error) {
     res.status(500).json({ message: "Failed to fetch recordings" });
   }
 });
 
-// Protected: Get recordings by room
+// Protected: Get recordings by room. The host and co-hosts see every track, others
+// their own and any shared with them.
 router.get("/room/:roomId", authMiddleware, async (req: AuthRequest, res: Response) => {
   const roomId = req.params.roomId as string;
   try {
     const recordings = await prisma.recording.findMany({
-      where: { roomId },
+      where: await visibleRoomRecordingsWhere(roomId, req.user!.userId),
       include: {
-        user: { select: { id: true, name: true, avatarUrl: true } },
+        user: { select: publicUserSelect },
       },
       orderBy: { createdAt: "desc" },
     });
-    res.json({ data: recordings });
+    res.json({ data: await withPreviews(recordings) });
   } catch (error) {
     res.status(500).json({ message: "Failed to fetch recordings" });
   }
 });
 
+type TranscriptFileFormat = Exclude<TranscriptFormat, "json">;
+
+const TRANSCRIPT_FILES: Record<TranscriptFileFormat, { contentType: string; render(segments: SpeakerSegment[]): string }> = {
+  vtt: { contentType: "text/vtt", render: toWebVtt },
+  srt: { contentType: "application/x-subrip", render: toSrt },
+  txt: { contentType: "text/plain", render: toPlainText },
+};
+
+// Sends a transcript as a file download in one of the caption formats
+function sendTranscriptFile(res: Response, format: TranscriptFileFormat, segments: SpeakerSegment[], name: string) {
+  const { contentType, render } = TRANSCRIPT_FILES[format];
+  res.type(`${contentType}; charset=utf-8`);
+  res.attachment(`${name}.${format}`);
+  res.send(render(segments));
+}
+
+// Protected: Every track of the room merged into one speaker-labelled transcript.
+// ?format=vtt|srt|txt downloads it; ?sessionId= limits it to one take.
+router.get("/room/:roomId/transcript", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const result = RoomTranscriptQuerySchema.safeParse(req.query);
+  if (!result.success) {
+    res.status(400).json({ message: "Invalid request", errors: result.error.errors });
+    return;
+  }
+
+  const roomId = req.params.roomId as string;
+  try {
+    const room = await prisma.room.findUnique({ where: { id: roomId }, select: { title: true } });
+    if (!room) {
+      res.status(404).json({ message: "Room not found" });
+      return;
+    }
+
+    const segments = await getRoomTranscript(roomId, req.user!.userId, result.data.sessionId);
+    if (result.data.format === "json") {
+      res.json({ data: segments });
+      return;
+    }
+    const fileName = room.title.replace(/[^\w\- ]+/g, "").trim() || "transcript";
+    sendTranscriptFile(res, result.data.format, segments, fileName);
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch transcript" });
+  }
+});
+
 // Protected: Get recording by ID
 router.get("/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
   const recordingId = req.params.id as string;
   try {
-    const recording = await prisma.recording.findUnique({
+    const { access } = await authorizeRecording(recordingId, req.user!.userId, "VIEW");
+    const recording = await prisma.recording.findUniqueOrThrow({
       where: { id: recordingId },
       include: {
-        room: true,
-        user: true,
+        room: { select: { id: true, title: true, code: true, hostId: true } },
+        user: { select: publicUserSelect },
       },
     });
-    if (!recording) {
-      res.status(404).json({ message: "Recording not found" });
+    const [withUrls] = await withPreviews([recording]);
+    res.json({ data: { ...withUrls, access } });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
       return;
     }
-    res.json({ data: recording });
-  } catch (error) {
     res.status(500).json({ message: "Failed to fetch recording" });
   }
 });
@@ -69,21 +179,381 @@ router.post("/", authMiddleware, async (req: AuthRequest, res: Response) => {
   }
 
   try {
+    // Removed and banned users are no longer participants, whatever their old row says
+    await authorizeRoomMember(result.data.roomId, req.user!.userId, "Only room participants can record in this room");
+
+    if (result.data.sessionId) {
+      const session = await prisma.recordingSession.findUnique({ where: { id: result.data.sessionId } });
+      if (!session || session.roomId !== result.data.roomId) {
+        res.status(400).json({ message: "Recording session does not belong to this room" });
+        return;
+      }
+    }
+
     const recording = await prisma.recording.create({
       data: {
         fileName: result.data.fileName,
         mimeType: result.data.mimeType,
         roomId: result.data.roomId,
+        sessionId: result.data.sessionId,
+        startedAt: result.data.startedAt,
         userId: req.user!.userId, // Use authenticated user
         status: "UPLOADING",
       },
     });
     res.status(201).json({ message: "Recording created", data: recording });
   } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
     res.status(500).json({ message: "Failed to create recording" });
   }
 });
 
+// Protected: Short-lived signed URL for downloading the recording's file. Serves the
+// processed file once there is one; ?variant=original asks for the upload as-is.
+router.get("/:id/download", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const recordingId = req.params.id as string;
+
+  try {
+    const { recording } = await authorizeRecording(recordingId, req.user!.userId, "DOWNLOAD");
+    if (!recording.storageKey) {
+      res.status(409).json({ message: "Recording has not finished uploading" });
+      return;
+    }
+
+    const processed = req.query.variant !== "original" ? recording.processedKey : null;
+    const downloadName = processed
+      ? `${path.parse(recording.fileName).name}${path.extname(processed)}`
+      : recording.fileName;
+
+    const expiresIn = signedUrlTtl();
+    const url = await getStorage().getSignedUrl(processed ?? recording.storageKey, { expiresIn, downloadName });
+
+    res.set("Cache-Control", "no-store");
+    res.json({ data: { url, expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString() } });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to create download link" });
+  }
+});
+
+// Protected: Signed URLs for playing the recording, progressively and over HLS once
+// it has been packaged. Players use them without the Authorization header.
+router.get("/:id/playback", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const recordingId = req.params.id as string;
+
+  try {
+    const { recording } = await authorizeRecording(recordingId, req.user!.userId, "VIEW");
+    if (!recording.storageKey) {
+      res.status(409).json({ message: "Recording has not finished uploading" });
+      return;
+    }
+
+    res.set("Cache-Control", "no-store");
+    res.json({ data: getPlaybackUrls(recording) });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to create playback links" });
+  }
+});
+
+// Public, but only with a signature from /:id/playback: progressive playback of the
+// processed file (the upload until processing finishes), with Range requests for seeking
+router.get("/:id/stream", async (req: Request, res: Response) => {
+  try {
+    const recording = await findPlayableRecording(req.params.id as string, playbackSignatureOf(req.query));
+    if (!recording.storageKey) {
+      res.status(409).json({ message: "Recording has not finished uploading" });
+      return;
+    }
+
+    if (recording.processedKey) {
+      const contentType = hasVideoRendition(recording.processedKey) ? "video/mp4" : "audio/mp4";
+      await sendStoredMedia(req, res, getStorage(), recording.processedKey, contentType);
+    } else {
+      const contentType = recording.mimeType ?? "application/octet-stream";
+      await sendStoredMedia(req, res, getStorage(), recording.storageKey, contentType);
+    }
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to stream recording" });
+  }
+});
+
+// Public, but only with a signature from /:id/playback: the HLS rendition. The
+// playlist is served with the signature added to its segment URIs, so players
+// fetch every segment through this route with it too.
+router.get("/:id/hls/:file", async (req: Request, res: Response) => {
+  const file = req.params.file as string;
+
+  try {
+    const signature = playbackSignatureOf(req.query);
+    const recording = await findPlayableRecording(req.params.id as string, signature);
+    const key = hlsFileKey(recording, file);
+    if (!key || !recording.processedKey) {
+      res.status(404).json({ message: "No HLS rendition for this recording yet" });
+      return;
+    }
+
+    if (file === HLS_PLAYLIST) {
+      const query = playbackQuery(signature);
+      await sendPlaylist(res, getStorage(), key, (playlist) => signPlaylist(playlist, query));
+      return;
+    }
+    const contentType = hlsContentType(file, hasVideoRendition(recording.processedKey));
+    await sendStoredMedia(req, res, getStorage(), key, contentType);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to stream recording" });
+  }
+});
+
+// Protected: Fresh signed URLs for the recording's previews, e.g. once the old ones expire
+router.get("/:id/previews", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const recordingId = req.params.id as string;
+
+  try {
+    const { recording } = await authorizeRecording(recordingId, req.user!.userId, "VIEW");
+
+    res.set("Cache-Control", "no-store");
+    res.json({ data: await getPreviewUrls(recording) });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to fetch previews" });
+  }
+});
+
+// Protected: The track's transcript, with word timings. ?format=vtt|srt|txt downloads it.
+router.get("/:id/transcript", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const result = TranscriptQuerySchema.safeParse(req.query);
+  if (!result.success) {
+    res.status(400).json({ message: "Invalid request", errors: result.error.errors });
+    return;
+  }
+
+  const recordingId = req.params.id as string;
+  try {
+    await authorizeRecording(recordingId, req.user!.userId, "VIEW");
+    const found = await getRecordingTranscript(recordingId);
+    if (!found) {
+      res.status(404).json({ message: "Transcript not found" });
+      return;
+    }
+
+    const { recording, segments } = found;
+    if (result.data.format === "json") {
+      const { engine, language, text } = recording.transcript!;
+      res.json({ data: { recordingId, speakerId: recording.userId, engine, language, text, segments } });
+      return;
+    }
+    sendTranscriptFile(res, result.data.format, segments, path.parse(recording.fileName).name);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to fetch transcript" });
+  }
+});
+
+// Protected: Processing status, with the failure reason and the jobs behind it
+router.get("/:id/status", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const recordingId = req.params.id as string;
+
+  try {
+    await authorizeRecording(recordingId, req.user!.userId, "VIEW");
+    const recording = await prisma.recording.findUniqueOrThrow({
+      where: { id: recordingId },
+      select: {
+        id: true,
+        status: true,
+        failureReason: true,
+        jobs: {
+          select: {
+            id: true,
+            kind: true,
+            status: true,
+            attempts: true,
+            maxAttempts: true,
+            runAt: true,
+            lastError: true,
+            createdAt: true,
+            finishedAt: true,
+          },
+          orderBy: { createdAt: "desc" },
+        },
+      },
+    });
+    res.json({ data: recording });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to fetch recording status" });
+  }
+});
+
+// Protected: Clock offset and RTT statistics of the track, with the raw samples
+router.get("/:id/clock-sync", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const recordingId = req.params.id as string;
+
+  try {
+    const { recording } = await authorizeRecording(recordingId, req.user!.userId, "VIEW");
+    res.json({ data: await getClockSyncStats(recording) });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to fetch clock sync statistics" });
+  }
+});
+
+// Protected: Who the recording is shared with (host and co-hosts)
+router.get("/:id/grants", authMiddleware, async (req: AuthRequest, res: Response) => {
+  try {
+    res.json({ data: await listRecordingGrants(req.params.id as string, req.user!.userId) });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to fetch access grants" });
+  }
+});
+
+// Protected: Share the recording with someone, or change their access (host and co-hosts)
+router.put("/:id/grants/:userId", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const result = RecordingGrantSchema.safeParse(req.body);
+  if (!result.success) {
+    res.status(400).json({ message: "Invalid request", errors: result.error.errors });
+    return;
+  }
+
+  try {
+    const grant = await grantRecordingAccess(
+      req.params.id as string,
+      req.user!.userId,
+      req.params.userId as string,
+      result.data.access
+    );
+    res.json({ message: "Access granted", data: grant });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to grant access" });
+  }
+});
+
+// Protected: Stop sharing the recording with someone (host and co-hosts)
+router.delete("/:id/grants/:userId", authMiddleware, async (req: AuthRequest, res: Response) => {
+  try {
+    await revokeRecordingAccess(req.params.id as string, req.user!.userId, req.params.userId as string);
+    res.json({ message: "Access revoked" });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to revoke access" });
+  }
+});
+
+// Chunked upload protocol. The client splits the file into chunks numbered from 0,
+// PUTs each as application/octet-stream with its SHA-256 in X-Chunk-Checksum (any
+// order, retries are safe), asks GET /:id/chunks what has arrived after an
+// interruption, and finishes with POST /:id/complete.
+
+// Protected: Upload one chunk (owner only)
+router.put(
+  "/:id/chunks/:sequence",
+  authMiddleware,
+  express.raw({ type: "application/octet-stream", limit: MAX_CHUNK_BYTES }),
+  async (req: AuthRequest, res: Response) => {
+    const result = UploadChunkSchema.safeParse({
+      sequence: req.params.sequence,
+      checksum: req.get("X-Chunk-Checksum"),
+    });
+    if (!result.success) {
+      res.status(400).json({ message: "Invalid request", errors: result.error.errors });
+      return;
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({ message: "Chunk body must be non-empty application/octet-stream" });
+      return;
+    }
+
+    try {
+      const recording = await findOwnRecording(req, res);
+      if (!recording) return;
+
+      const chunk = await storeChunk(recording, result.data.sequence, req.body, result.data.checksum);
+      res.json({ message: "Chunk received", data: chunk });
+    } catch (error) {
+      if (error instanceof ServiceError) {
+        res.status(httpStatusOf(error.code)).json({ message: error.message });
+        return;
+      }
+      res.status(500).json({ message: "Failed to store chunk" });
+    }
+  }
+);
+
+// Protected: Chunks received so far, for resuming (owner only)
+router.get("/:id/chunks", authMiddleware, async (req: AuthRequest, res: Response) => {
+  try {
+    const recording = await findOwnRecording(req, res);
+    if (!recording) return;
+
+    res.json({ data: await getUploadState(recording) });
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch upload state" });
+  }
+});
+
+// Protected: Assemble the chunks and start processing (owner only)
+router.post("/:id/complete", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const result = FinalizeUploadSchema.safeParse(req.body);
+  if (!result.success) {
+    res.status(400).json({ message: "Invalid request", errors: result.error.errors });
+    return;
+  }
+
+  try {
+    const recording = await findOwnRecording(req, res);
+    if (!recording) return;
+
+    const updated = await finalizeUpload(recording, result.data);
+    res.json({ message: "Upload complete", data: updated });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to finalize upload" });
+  }
+});
+
 // Protected: Update recording (owner only)
 router.patch("/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
   const result = UpdateRecordingSchema.safeParse(req.body);
@@ -132,6 +602,13 @@ router.delete("/:id", authMiddleware, async (req: AuthRequest, res: Response) =>
       return;
     }
 
+    // Mark it first, so jobs still running stop storing files for it. Stored objects
+    // go before the row: if that fails the row stays, so the delete can be retried.
+    await prisma.recording.update({ where: { id: recordingId }, data: { deletedAt: new Date() } });
+    await cancelJobs(recordingId, "The recording was deleted");
+    await getStorage().deletePrefix(recordingPrefix(recordingId));
+    await discardUpload(recordingId);
+
     await prisma.recording.delete({
       where: { id: recordingId },
     });
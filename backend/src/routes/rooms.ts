@@ -1,7 +1,24 @@
 import { Router, Response } from "express";
 import prisma from "../db.js";
-import { CreateRoomSchema, UpdateRoomSchema } from "../schemas.js";
+import {
+  ChatHistoryQuerySchema,
+  CreateRoomSchema,
+  ModerationSettingsSchema,
+  TransferHostSchema,
+  UpdateParticipantRoleSchema,
+  UpdateRoomSchema,
+} from "../schemas.js";
 import { authMiddleware, AuthRequest } from "../middleware/auth.js";
+import { refusalError, requestAdmission } from "../services/admission.js";
+import { liftBan, listBans } from "../services/bans.js";
+import { getChatHistory } from "../services/chat.js";
+import { ServiceError, httpStatusOf } from "../services/errors.js";
+import { muteAll, updateModerationSettings } from "../services/moderation.js";
+import { authorizeRoomAction, authorizeRoomMember } from "../services/permissions.js";
+import { listRecordingSessions, stopRunningSession } from "../services/recordingSessions.js";
+import { setParticipantRole, transferHost } from "../services/roles.js";
+import { publicUserSelect } from "../services/users.js";
+import { admitAllWaitingUsers, announceKnock, approveWaitingUser, rejectWaitingUser } from "../services/waitingRoom.js";
 
 const router = Router();
 
@@ -33,7 +50,7 @@ router.get("/", async (_req: AuthRequest, res: Response) => {
     const rooms = await prisma.room.findMany({
       include: {
         host: {
-          select: { id: true, name: true, email: true, avatarUrl: true },
+          select: publicUserSelect,
         },
         _count: {
           select: { participants: true, recordings: true },
@@ -76,11 +93,10 @@ router.get("/:id", async (req: AuthRequest, res: Response) => {
     const room = await prisma.room.findUnique({
       where: { id: roomId },
       include: {
-        host: true,
+        host: { select: publicUserSelect },
         participants: {
-          include: { user: true },
+          include: { user: { select: publicUserSelect } },
         },
-        recordings: true,
       },
     });
     if (!room) {
@@ -112,72 +128,51 @@ router.get("/code/:code", async (req: AuthRequest, res: Response) => {
   }
 });
 
-router.post("/code/:code/join", authMiddleware, async (req: AuthRequest, res: Response) => {
-  const code = req.params.code as string;
+// Both join routes: one admission decision, answered the same way
+async function respondToJoin(req: AuthRequest, res: Response, where: { id: string } | { code: string }) {
+  const userId = req.user!.userId;
 
   try {
-    const room = await prisma.room.findUnique({ 
-      where: { code },
-      include: {
-        _count: { select: { participants: { where: { leftAt: null } } } }
-      }
-    });
-    if (!room) {
-      res.status(404).json({ message: "Room not found" });
-      return;
-    }
-    if (!room.isActive) {
-      res.status(400).json({ message: "Room is not active" });
-      return;
-    }
+    const result = await requestAdmission(where, userId);
 
-    // Check capacity
-    if (room._count.participants >= room.maxParticipants) {
-      res.status(400).json({ message: "Room is full" });
+    if (result.status === "waitlisted") {
+      const waitingEntry = await prisma.waitingRoom.findUniqueOrThrow({
+        where: { id: result.entry.id },
+        include: { user: { select: publicUserSelect } },
+      });
+      await announceKnock(result.room.id, userId);
+      res.status(202).json({ message: "Added to waiting room", data: waitingEntry });
       return;
     }
 
-    // Check if waiting room is enabled
-    if (room.waitingRoom && room.hostId !== req.user!.userId) {
-      const waitingEntry = await prisma.waitingRoom.upsert({
-        where: {
-          userId_roomId: {
-            userId: req.user!.userId,
-            roomId: room.id,
-          },
-        },
-        update: { status: "PENDING" },
-        create: {
-          userId: req.user!.userId,
-          roomId: room.id,
-          status: "PENDING",
-        },
-        include: { user: { select: { id: true, name: true, email: true, avatarUrl: true } } },
-      });
-      res.status(202).json({ message: "Added to waiting room", data: waitingEntry });
+    if (result.status !== "admitted") {
+      const error = refusalError(result.status);
+      res.status(httpStatusOf(error.code)).json({ message: error.message, status: result.status });
       return;
     }
 
-    const participant = await prisma.participant.upsert({
-      where: {
-        userId_roomId: {
-          userId: req.user!.userId,
-          roomId: room.id,
-        },
-      },
-      update: { leftAt: null },
-      create: {
-        userId: req.user!.userId,
-        roomId: room.id,
-        role: "GUEST",
-      },
-      include: { user: true, room: true },
+    const participant = await prisma.participant.findUniqueOrThrow({
+      where: { id: result.participant.id },
+      include: { user: { select: publicUserSelect }, room: true },
     });
-
     res.status(201).json({ message: "Joined room", data: participant });
   } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
     res.status(500).json({ message: "Failed to join room" });
   }
+}
+
+// Protected: Join room by code
+router.post("/code/:code/join", authMiddleware, async (req: AuthRequest, res: Response) => {
+  await respondToJoin(req, res, { code: req.params.code as string });
+});
+
+// Protected: Join room by ID
+router.post("/:id/join", authMiddleware, async (req: AuthRequest, res: Response) => {
+  await respondToJoin(req, res, { id: req.params.id as string });
 });
 
 // Protected: Create room (uses authenticated user as host)
@@ -202,8 +197,9 @@ router.post("/", authMiddleware, async (req: AuthRequest, res: Response) => {
         videoEnabled: result.data.videoEnabled ?? true,
         audioOnly: result.data.audioOnly ?? false,
         waitingRoom: result.data.waitingRoom ?? false,
+        guestScreenShare: result.data.guestScreenShare ?? true,
       },
-      include: { host: true },
+      include: { host: { select: publicUserSelect } },
     });
 
     await prisma.participant.create({
@@ -220,7 +216,7 @@ router.post("/", authMiddleware, async (req: AuthRequest, res: Response) => {
   }
 });
 
-// Protected: Update room (host only)
+// Protected: Update room (host and co-hosts)
 router.patch("/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
   const result = UpdateRoomSchema.safeParse(req.body);
   if (!result.success) {
@@ -231,16 +227,7 @@ router.patch("/:id", authMiddleware, async (req: AuthRequest, res: Response) =>
   const roomId = req.params.id as string;
 
   try {
-    // Check if user is the host
-    const room = await prisma.room.findUnique({ where: { id: roomId } });
-    if (!room) {
-      res.status(404).json({ message: "Room not found" });
-      return;
-    }
-    if (room.hostId !== req.user!.userId) {
-      res.status(403).json({ message: "Only the host can update this room" });
-      return;
-    }
+    await authorizeRoomAction(roomId, req.user!.userId, "room:update", "Only the host or a co-host can update this room");
 
     const updatedRoom = await prisma.room.update({
       where: { id: roomId },
@@ -251,77 +238,11 @@ router.patch("/:id", authMiddleware, async (req: AuthRequest, res: Response) =>
     });
     res.json({ message: "Room updated", data: updatedRoom });
   } catch (error) {
-    res.status(500).json({ message: "Failed to update room" });
-  }
-});
-
-// Protected: Join room by ID
-router.post("/:id/join", authMiddleware, async (req: AuthRequest, res: Response) => {
-  const roomId = req.params.id as string;
-
-  try {
-    const room = await prisma.room.findUnique({ 
-      where: { id: roomId },
-      include: {
-        _count: { select: { participants: { where: { leftAt: null } } } }
-      }
-    });
-    if (!room) {
-      res.status(404).json({ message: "Room not found" });
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
       return;
     }
-    if (!room.isActive) {
-      res.status(400).json({ message: "Room is not active" });
-      return;
-    }
-
-    // Check capacity
-    if (room._count.participants >= room.maxParticipants) {
-      res.status(400).json({ message: "Room is full" });
-      return;
-    }
-
-    // Check if waiting room is enabled
-    if (room.waitingRoom && room.hostId !== req.user!.userId) {
-      // Add to waiting room instead of directly joining
-      const waitingEntry = await prisma.waitingRoom.upsert({
-        where: {
-          userId_roomId: {
-            userId: req.user!.userId,
-            roomId: roomId,
-          },
-        },
-        update: { status: "PENDING" },
-        create: {
-          userId: req.user!.userId,
-          roomId: roomId,
-          status: "PENDING",
-        },
-        include: { user: { select: { id: true, name: true, email: true, avatarUrl: true } } },
-      });
-      res.status(202).json({ message: "Added to waiting room", data: waitingEntry });
-      return;
-    }
-
-    const participant = await prisma.participant.upsert({
-      where: {
-        userId_roomId: {
-          userId: req.user!.userId,
-          roomId: roomId,
-        },
-      },
-      update: { leftAt: null },
-      create: {
-        userId: req.user!.userId,
-        roomId: roomId,
-        role: "GUEST",
-      },
-      include: { user: true, room: true },
-    });
-
-    res.status(201).json({ message: "Joined room", data: participant });
-  } catch (error) {
-    res.status(500).json({ message: "Failed to join room" });
+    res.status(500).json({ message: "Failed to update room" });
   }
 });
 
@@ -347,16 +268,7 @@ router.post("/:id/end", authMiddleware, async (req: AuthRequest, res: Response)
   const roomId = req.params.id as string;
 
   try {
-    // Check if user is the host
-    const room = await prisma.room.findUnique({ where: { id: roomId } });
-    if (!room) {
-      res.status(404).json({ message: "Room not found" });
-      return;
-    }
-    if (room.hostId !== req.user!.userId) {
-      res.status(403).json({ message: "Only the host can end this room" });
-      return;
-    }
+    await authorizeRoomAction(roomId, req.user!.userId, "room:end", "Only the host can end this room");
 
     const updatedRoom = await prisma.room.update({
       where: { id: roomId },
@@ -367,9 +279,14 @@ router.post("/:id/end", authMiddleware, async (req: AuthRequest, res: Response)
       where: { roomId: roomId, leftAt: null },
       data: { leftAt: new Date() },
     });
+    await stopRunningSession(roomId, req.user!.userId);
 
     res.json({ message: "Room ended", data: updatedRoom });
   } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
     res.status(500).json({ message: "Failed to end room" });
   }
 });
@@ -378,121 +295,284 @@ router.delete("/:id", authMiddleware, async (req: AuthRequest, res: Response) =>
   const roomId = req.params.id as string;
 
   try {
-    const room = await prisma.room.findUnique({ where: { id: roomId } });
-    if (!room) {
-      res.status(404).json({ message: "Room not found" });
-      return;
-    }
-    if (room.hostId !== req.user!.userId) {
-      res.status(403).json({ message: "Only the host can delete this room" });
-      return;
-    }
+    await authorizeRoomAction(roomId, req.user!.userId, "room:delete", "Only the host can delete this room");
 
     await prisma.room.delete({
       where: { id: roomId },
     });
     res.json({ message: "Room deleted" });
   } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
     res.status(500).json({ message: "Failed to delete room" });
   }
 });
 
-router.get("/:id/waiting-room", authMiddleware, async (req: AuthRequest, res: Response) => {
+// Protected: Chat history (the host and current participants), paged backwards from the newest message
+router.get("/:id/messages", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const result = ChatHistoryQuerySchema.safeParse(req.query);
+  if (!result.success) {
+    res.status(400).json({ message: "Invalid request", errors: result.error.errors });
+    return;
+  }
+
   const roomId = req.params.id as string;
 
   try {
-    const room = await prisma.room.findUnique({ where: { id: roomId } });
-    if (!room) {
-      res.status(404).json({ message: "Room not found" });
+    await authorizeRoomMember(roomId, req.user!.userId, "Only room participants can read the chat");
+
+    const page = await getChatHistory(roomId, req.user!.userId, result.data);
+    res.json({ data: page.messages, nextCursor: page.nextCursor });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
       return;
     }
-    if (room.hostId !== req.user!.userId) {
-      res.status(403).json({ message: "Only the host can view the waiting room" });
+    res.status(500).json({ message: "Failed to fetch messages" });
+  }
+});
+
+// Talk-time stats accumulated from the active speaker detection, loudest talker first
+router.get("/:id/speaking-time", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const roomId = req.params.id as string;
+
+  try {
+    await authorizeRoomMember(roomId, req.user!.userId, "Only room participants can view speaking time");
+
+    const tallies = await prisma.speakingTime.findMany({
+      where: { roomId },
+      include: { user: { select: { id: true, name: true } } },
+      orderBy: { totalMs: "desc" },
+    });
+    const roomTotalMs = tallies.reduce((sum, tally) => sum + tally.totalMs, 0);
+
+    res.json({
+      data: tallies.map((tally) => ({
+        userId: tally.userId,
+        userName: tally.user.name,
+        totalMs: tally.totalMs,
+        share: roomTotalMs > 0 ? tally.totalMs / roomTotalMs : 0,
+      })),
+      totalMs: roomTotalMs,
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to fetch speaking time" });
+  }
+});
+
+// Protected: Recording takes in the room, each with its participants' tracks
+router.get("/:id/recording-sessions", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const roomId = req.params.id as string;
+
+  try {
+    await authorizeRoomMember(roomId, req.user!.userId, "Only room participants can view recording sessions");
+
+    res.json({ data: await listRecordingSessions(roomId, req.user!.userId) });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
       return;
     }
+    res.status(500).json({ message: "Failed to fetch recording sessions" });
+  }
+});
+
+router.get("/:id/waiting-room", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const roomId = req.params.id as string;
+
+  try {
+    await authorizeRoomAction(
+      roomId,
+      req.user!.userId,
+      "waiting-room:manage",
+      "Only the host or a co-host can view the waiting room"
+    );
 
     const waitingList = await prisma.waitingRoom.findMany({
       where: { roomId, status: "PENDING" },
-      include: { user: { select: { id: true, name: true, email: true, avatarUrl: true } } },
+      include: { user: { select: publicUserSelect } },
       orderBy: { createdAt: "asc" },
     });
 
     res.json({ data: waitingList });
   } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
     res.status(500).json({ message: "Failed to fetch waiting room" });
   }
 });
 
+// Protected: Admit everyone in the waiting room, oldest first, as far as capacity allows
+router.post("/:id/waiting-room/admit-all", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const roomId = req.params.id as string;
+
+  try {
+    const result = await admitAllWaitingUsers(roomId, req.user!.userId);
+    res.json({ message: "Waiting participants admitted", data: result });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to admit waiting participants" });
+  }
+});
+
 router.post("/:id/waiting-room/:userId/approve", authMiddleware, async (req: AuthRequest, res: Response) => {
   const roomId = req.params.id as string;
   const userId = req.params.userId as string;
 
   try {
-    const room = await prisma.room.findUnique({ 
-      where: { id: roomId },
-      include: { _count: { select: { participants: { where: { leftAt: null } } } } }
-    });
-    if (!room) {
-      res.status(404).json({ message: "Room not found" });
+    const participant = await approveWaitingUser(roomId, req.user!.userId, userId);
+    res.json({ message: "Participant approved", data: participant });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
       return;
     }
-    if (room.hostId !== req.user!.userId) {
-      res.status(403).json({ message: "Only the host can approve participants" });
+    res.status(500).json({ message: "Failed to approve participant" });
+  }
+});
+
+
+router.post("/:id/waiting-room/:userId/reject", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const roomId = req.params.id as string;
+  const userId = req.params.userId as string;
+
+  try {
+    await rejectWaitingUser(roomId, req.user!.userId, userId);
+
+    res.json({ message: "Participant rejected" });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
       return;
     }
+    res.status(500).json({ message: "Failed to reject participant" });
+  }
+});
+
+// Protected: Lock the room, restrict unmuting or chat (host and co-hosts)
+router.patch("/:id/moderation", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const result = ModerationSettingsSchema.safeParse(req.body);
+  if (!result.success) {
+    res.status(400).json({ message: "Invalid request", errors: result.error.errors });
+    return;
+  }
 
+  const roomId = req.params.id as string;
 
-    if (room._count.participants >= room.maxParticipants) {
-      res.status(400).json({ message: "Room is full" });
+  try {
+    const settings = await updateModerationSettings(roomId, req.user!.userId, result.data);
+    res.json({ message: "Moderation settings updated", data: settings });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
       return;
     }
+    res.status(500).json({ message: "Failed to update moderation settings" });
+  }
+});
 
-    // Update waiting room entry
-    await prisma.waitingRoom.update({
-      where: { userId_roomId: { userId, roomId } },
-      data: { status: "APPROVED" },
-    });
-
-    // Add as participant
-    const participant = await prisma.participant.create({
-      data: {
-        userId: userId,
-        roomId: roomId,
-        role: "GUEST",
-      },
-      include: { user: { select: { id: true, name: true, email: true, avatarUrl: true } } },
-    });
+// Protected: Mute everyone except the host (host and co-hosts)
+router.post("/:id/mute-all", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const roomId = req.params.id as string;
 
-    res.json({ message: "Participant approved", data: participant });
+  try {
+    const userIds = await muteAll(roomId, req.user!.userId);
+    res.json({ message: "Participants muted", data: { userIds } });
   } catch (error) {
-    res.status(500).json({ message: "Failed to approve participant" });
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to mute participants" });
   }
 });
 
+// Protected: List the room's bans (host and co-hosts)
+router.get("/:id/bans", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const roomId = req.params.id as string;
 
-router.post("/:id/waiting-room/:userId/reject", authMiddleware, async (req: AuthRequest, res: Response) => {
+  try {
+    const bans = await listBans(roomId, req.user!.userId);
+    res.json({ data: bans });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to fetch bans" });
+  }
+});
+
+// Protected: Lift a ban so the user can join again (host and co-hosts)
+router.delete("/:id/bans/:userId", authMiddleware, async (req: AuthRequest, res: Response) => {
   const roomId = req.params.id as string;
   const userId = req.params.userId as string;
 
   try {
-    const room = await prisma.room.findUnique({ where: { id: roomId } });
-    if (!room) {
-      res.status(404).json({ message: "Room not found" });
+    await liftBan(roomId, req.user!.userId, userId);
+    res.json({ message: "Ban lifted" });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
       return;
     }
-    if (room.hostId !== req.user!.userId) {
-      res.status(403).json({ message: "Only the host can reject participants" });
+    res.status(500).json({ message: "Failed to lift ban" });
+  }
+});
+
+// Protected: Promote a participant to co-host or demote them to guest (host only)
+router.put("/:id/participants/:userId/role", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const result = UpdateParticipantRoleSchema.safeParse(req.body);
+  if (!result.success) {
+    res.status(400).json({ message: "Invalid request", errors: result.error.errors });
+    return;
+  }
+
+  const roomId = req.params.id as string;
+  const userId = req.params.userId as string;
+
+  try {
+    const participant = await setParticipantRole(roomId, req.user!.userId, userId, result.data.role);
+    res.json({ message: "Participant role updated", data: participant });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
       return;
     }
+    res.status(500).json({ message: "Failed to update participant role" });
+  }
+});
 
-    await prisma.waitingRoom.update({
-      where: { userId_roomId: { userId, roomId } },
-      data: { status: "REJECTED" },
-    });
+// Protected: Hand the room over to another participant (host only)
+router.post("/:id/transfer-host", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const result = TransferHostSchema.safeParse(req.body);
+  if (!result.success) {
+    res.status(400).json({ message: "Invalid request", errors: result.error.errors });
+    return;
+  }
 
-    res.json({ message: "Participant rejected" });
+  const roomId = req.params.id as string;
+
+  try {
+    const room = await transferHost(roomId, req.user!.userId, result.data.userId);
+    res.json({ message: "Host transferred", data: room });
   } catch (error) {
-    res.status(500).json({ message: "Failed to reject participant" });
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to transfer host" });
   }
 });
 
@@ -0,0 +1,140 @@
+import { Router, Request, Response } from "express";
+import { CreateShareLinkSchema, ResolveShareLinkSchema, ShareLinkQuerySchema } from "../schemas.js";
+import { authMiddleware, AuthRequest } from "../middleware/auth.js";
+import { ServiceError, httpStatusOf } from "../services/errors.js";
+import {
+  ShareTarget,
+  createShareLink,
+  describeShareLink,
+  listShareLinkAccesses,
+  listShareLinks,
+  resolveShareLink,
+  revokeShareLink,
+} from "../services/shareLinks.js";
+
+const router = Router();
+
+// The schemas guarantee exactly one of the two is present
+const shareTargetOf = (data: { recordingId?: string; roomId?: string }): ShareTarget =>
+  data.recordingId ? { recordingId: data.recordingId } : { roomId: data.roomId! };
+
+// Public: What a share link is, and whether it needs a password
+router.get("/public/:token", async (req: Request, res: Response) => {
+  try {
+    res.json({ data: await describeShareLink(req.params.token as string) });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to fetch share link" });
+  }
+});
+
+// Public: Exchange a share link (and its password) for short-lived signed media URLs
+router.post("/public/:token", async (req: Request, res: Response) => {
+  const result = ResolveShareLinkSchema.safeParse(req.body);
+  if (!result.success) {
+    res.status(400).json({ message: "Invalid request", errors: result.error.errors });
+    return;
+  }
+
+  try {
+    const resolution = await resolveShareLink(req.params.token as string, result.data, {
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+    if (resolution.status === "too-many-attempts") {
+      res.set("Retry-After", String(resolution.retryAfterSeconds));
+      res.status(429).json({ message: "Too many wrong passwords; try again later", status: resolution.status });
+      return;
+    }
+    if (resolution.status !== "ok") {
+      const message = resolution.status === "password-required" ? "This link needs a password" : "Incorrect password";
+      res.status(401).json({ message, status: resolution.status });
+      return;
+    }
+
+    res.set("Cache-Control", "no-store");
+    res.json({ data: resolution.data });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to open share link" });
+  }
+});
+
+// Protected: Share links for a recording (its owner) or a room (host and co-hosts)
+router.get("/", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const result = ShareLinkQuerySchema.safeParse(req.query);
+  if (!result.success) {
+    res.status(400).json({ message: "Invalid request", errors: result.error.errors });
+    return;
+  }
+
+  try {
+    res.json({ data: await listShareLinks(shareTargetOf(result.data), req.user!.userId) });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to fetch share links" });
+  }
+});
+
+// Protected: Create a share link for a recording (its owner) or a room (host and co-hosts)
+router.post("/", authMiddleware, async (req: AuthRequest, res: Response) => {
+  const result = CreateShareLinkSchema.safeParse(req.body);
+  if (!result.success) {
+    res.status(400).json({ message: "Invalid request", errors: result.error.errors });
+    return;
+  }
+
+  try {
+    const { password, allowDownload, expiresAt } = result.data;
+    const link = await createShareLink(shareTargetOf(result.data), req.user!.userId, {
+      password,
+      allowDownload,
+      expiresAt,
+    });
+    res.status(201).json({ message: "Share link created", data: link });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to create share link" });
+  }
+});
+
+// Protected: Who opened the link and when, newest first
+router.get("/:id/accesses", authMiddleware, async (req: AuthRequest, res: Response) => {
+  try {
+    res.json({ data: await listShareLinkAccesses(req.params.id as string, req.user!.userId) });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to fetch share link accesses" });
+  }
+});
+
+// Protected: Revoke a share link. It stays listed, with its access log.
+router.delete("/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
+  try {
+    await revokeShareLink(req.params.id as string, req.user!.userId);
+    res.json({ message: "Share link revoked" });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      res.status(httpStatusOf(error.code)).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Failed to revoke share link" });
+  }
+});
+
+export default router;
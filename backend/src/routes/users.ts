@@ -2,12 +2,17 @@ import { Router, Request, Response } from "express";
 import prisma from "../db.js";
 import { CreateUserSchema, UpdateUserSchema } from "../schemas.js";
 import bcrypt from "bcrypt";
+import { publicUserSelect } from "../services/users.js";
 const router = Router();
 
+// Users are always returned through publicUserSelect. Recordings are left out too:
+// they go through the access checks in routes/recordings.ts.
+
 router.get("/", async (_req: Request, res: Response) => {
     try {
         const users = await prisma.user.findMany({
-            include: {
+            select: {
+                ...publicUserSelect,
                 hostedRooms: true,
                 _count: {
                     select: { recordings: true, participants: true },
@@ -24,12 +29,15 @@ router.get("/:id", async (req: Request<{ id: string }>, res: Response) => {
     try {
         const user = await prisma.user.findUnique({
             where: { id: req.params.id },
-            include: {
+            select: {
+                ...publicUserSelect,
                 hostedRooms: true,
-                recordings: true,
                 participants: {
                     include: { room: true },
                 },
+                _count: {
+                    select: { recordings: true },
+                },
             },
         });
         if (!user) {
@@ -55,6 +63,7 @@ router.post("/", async (req: Request, res: Response) => {
                 ...result.data,
                 password: await bcrypt.hash(result.data.password, 10),
             },
+            select: publicUserSelect,
         });
         res.status(201).json({ message: "User created", data: user });
     } catch (error) {
@@ -74,6 +83,7 @@ router.patch("/:id", async (req: Request<{ id: string }>, res: Response) => {
         const user = await prisma.user.update({
             where: { id: req.params.id },
             data: result.data,
+            select: publicUserSelect,
         });
         res.json({ message: "User updated", data: user });
     } catch (error) {
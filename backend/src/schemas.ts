@@ -1,4 +1,23 @@
 import { z } from "zod";
+import type {
+    ClockPongPayload,
+    AudioLevelPayload,
+    ChatMessagePayload,
+    ChatMessageRefPayload,
+    ChatReactionPayload,
+    DirectMessagePayload,
+    EditChatMessagePayload,
+    IceCandidatePayload,
+    ModerationSettingsPayload,
+    RemoveParticipantPayload,
+    RoomPayload,
+    SessionDescriptionPayload,
+    SetParticipantRolePayload,
+    TargetParticipantPayload,
+    ToggleAudioPayload,
+    ToggleVideoPayload,
+    WaitingParticipantPayload,
+} from "./socket/events.js";
 
 // Auth schemas
 export const RegisterSchema = z.object({
@@ -31,6 +50,7 @@ export const CreateRoomSchema = z.object({
     videoEnabled: z.boolean().optional().default(true),
     audioOnly: z.boolean().optional().default(false),
     waitingRoom: z.boolean().optional().default(false),
+    guestScreenShare: z.boolean().optional().default(true),
 });
 
 export const UpdateRoomSchema = z.object({
@@ -43,24 +63,224 @@ export const UpdateRoomSchema = z.object({
     videoEnabled: z.boolean().optional(),
     audioOnly: z.boolean().optional(),
     waitingRoom: z.boolean().optional(),
+    guestScreenShare: z.boolean().optional(),
 });
 
+const moderationSettingsShape = {
+    isLocked: z.boolean().optional(),
+    guestUnmute: z.boolean().optional(),
+    chatMode: z.enum(["EVERYONE", "HOSTS_ONLY", "DISABLED"]).optional(),
+};
+
+export const ModerationSettingsSchema = z.object(moderationSettingsShape);
+
 export const JoinRoomSchema = z.object({
     userId: z.string().uuid(),
     roomId: z.string().uuid(),
 });
+
+const AssignableRoleSchema = z.enum(["CO_HOST", "GUEST"]);
+
+export const UpdateParticipantRoleSchema = z.object({
+    role: AssignableRoleSchema,
+});
+
+export const TransferHostSchema = z.object({
+    userId: z.string().uuid(),
+});
+
+export const ChatHistoryQuerySchema = z.object({
+    cursor: z.string().uuid().optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
 export const CreateRecordingSchema = z.object({
     fileName: z.string().min(1),
     roomId: z.string().uuid(),
     userId: z.string().uuid(),
     mimeType: z.string().optional(),
+    // The take this track was recorded in, from recording-started
+    sessionId: z.string().uuid().optional(),
+    // When recording began on the client's clock; lines the track up with the others
+    startedAt: z.coerce.date().optional(),
 });
 
+// Only the name is the owner's to change; file details come from the upload and
+// processing pipeline
 export const UpdateRecordingSchema = z.object({
-    fileUrl: z.string().url().optional(),
-    fileSize: z.number().int().positive().optional(),
-    duration: z.number().int().positive().optional(),
-    status: z.enum(["UPLOADING", "PROCESSING", "READY", "FAILED"]).optional(),
+    fileName: z.string().min(1).optional(),
+});
+
+const Sha256Schema = z.string().regex(/^[a-fA-F0-9]{64}$/, "Expected a hex SHA-256 digest");
+
+export const UploadChunkSchema = z.object({
+    sequence: z.coerce.number().int().min(0).max(100_000),
+    checksum: Sha256Schema,
+});
+
+export const FinalizeUploadSchema = z.object({
+    totalChunks: z.number().int().min(1).max(100_001),
+    checksum: Sha256Schema.optional(),
+});
+
+export const RecordingGrantSchema = z.object({
+    access: z.enum(["VIEW", "DOWNLOAD"]),
+});
+
+// A share link points at exactly one recording or one room
+const shareTargetShape = {
+    recordingId: z.string().uuid().optional(),
+    roomId: z.string().uuid().optional(),
+};
+const hasOneShareTarget = (target: { recordingId?: string; roomId?: string }) =>
+    (target.recordingId === undefined) !== (target.roomId === undefined);
+const oneShareTargetMessage = { message: "Give either recordingId or roomId", path: ["recordingId"] };
+
+export const CreateShareLinkSchema = z
+    .object({
+        ...shareTargetShape,
+        password: z.string().min(4).max(128).optional(),
+        allowDownload: z.boolean().optional().default(false),
+        expiresAt: z.coerce
+            .date()
+            .refine((date) => date > new Date(), "Expiry must be in the future")
+            .optional(),
+    })
+    .refine(hasOneShareTarget, oneShareTargetMessage);
+
+export const ShareLinkQuerySchema = z.object(shareTargetShape).refine(hasOneShareTarget, oneShareTargetMessage);
+
+export const ResolveShareLinkSchema = z.object({
+    password: z.string().max(128).optional(),
+    download: z.boolean().optional().default(false),
+});
+
+export const TranscriptQuerySchema = z.object({
+    format: z.enum(["json", "vtt", "srt", "txt"]).default("json"),
+});
+
+export const RoomTranscriptQuerySchema = TranscriptQuerySchema.extend({
+    // Only this take's tracks
+    sessionId: z.string().uuid().optional(),
+});
+
+// Socket event schemas. Annotated with the shared payload types so the schemas
+// and the contract in socket/events.ts cannot drift apart.
+const MAX_SDP_LENGTH = 64 * 1024;
+
+export const RoomEventSchema: z.ZodType<RoomPayload> = z.object({
+    roomId: z.string().uuid(),
+});
+
+const chatText = z.string().trim().min(1).max(2000);
+
+export const ChatMessageEventSchema: z.ZodType<ChatMessagePayload> = z.object({
+    roomId: z.string().uuid(),
+    message: chatText,
+    replyToId: z.string().uuid().optional(),
+});
+
+export const DirectMessageEventSchema: z.ZodType<DirectMessagePayload> = z.object({
+    roomId: z.string().uuid(),
+    recipientId: z.string().uuid(),
+    message: chatText,
+    replyToId: z.string().uuid().optional(),
+});
+
+export const ChatMessageRefEventSchema: z.ZodType<ChatMessageRefPayload> = z.object({
+    roomId: z.string().uuid(),
+    messageId: z.string().uuid(),
+});
+
+export const EditChatMessageEventSchema: z.ZodType<EditChatMessagePayload> = z.object({
+    roomId: z.string().uuid(),
+    messageId: z.string().uuid(),
+    message: chatText,
+});
+
+export const ChatReactionEventSchema: z.ZodType<ChatReactionPayload> = z.object({
+    roomId: z.string().uuid(),
+    messageId: z.string().uuid(),
+    // A single emoji, including ZWJ sequences and skin-tone modifiers
+    emoji: z
+        .string()
+        .max(32)
+        .regex(/^\p{Extended_Pictographic}[\p{Extended_Pictographic}\p{Emoji_Component}\u200d\ufe0f]*$/u),
+});
+
+export const ToggleAudioEventSchema: z.ZodType<ToggleAudioPayload> = z.object({
+    roomId: z.string().uuid(),
+    isMuted: z.boolean(),
+});
+
+export const ToggleVideoEventSchema: z.ZodType<ToggleVideoPayload> = z.object({
+    roomId: z.string().uuid(),
+    isVideoOff: z.boolean(),
+});
+
+export const TargetParticipantEventSchema: z.ZodType<TargetParticipantPayload> = z.object({
+    roomId: z.string().uuid(),
+    targetUserId: z.string().uuid(),
+});
+
+export const RemoveParticipantEventSchema: z.ZodType<RemoveParticipantPayload> = z.object({
+    roomId: z.string().uuid(),
+    targetUserId: z.string().uuid(),
+    ban: z.boolean().optional(),
+    reason: z.string().max(500).optional(),
+});
+
+export const SetParticipantRoleEventSchema: z.ZodType<SetParticipantRolePayload> = z.object({
+    roomId: z.string().uuid(),
+    targetUserId: z.string().uuid(),
+    role: AssignableRoleSchema,
+});
+
+const sessionDescriptionEventSchema = (type: "offer" | "answer"): z.ZodType<SessionDescriptionPayload> =>
+    z.object({
+        roomId: z.string().uuid(),
+        targetUserId: z.string().uuid(),
+        description: z.object({
+            type: z.literal(type),
+            sdp: z.string().max(MAX_SDP_LENGTH),
+        }),
+    });
+
+export const WebRtcOfferEventSchema = sessionDescriptionEventSchema("offer");
+export const WebRtcAnswerEventSchema = sessionDescriptionEventSchema("answer");
+
+export const WebRtcIceCandidateEventSchema: z.ZodType<IceCandidatePayload> = z.object({
+    roomId: z.string().uuid(),
+    targetUserId: z.string().uuid(),
+    candidate: z
+        .object({
+            candidate: z.string().max(4096),
+            sdpMid: z.string().nullish(),
+            sdpMLineIndex: z.number().int().nonnegative().nullish(),
+            usernameFragment: z.string().nullish(),
+        })
+        .nullable(),
+});
+
+export const AudioLevelEventSchema: z.ZodType<AudioLevelPayload> = z.object({
+    roomId: z.string().uuid(),
+    level: z.number().min(0).max(1),
+});
+
+// A client's reply to a server clock-ping; epoch milliseconds on the client's clock
+export const ClockPongSchema: z.ZodType<ClockPongPayload> = z.object({
+    clientReceivedAt: z.number().finite().nonnegative(),
+    clientSentAt: z.number().finite().nonnegative(),
+});
+
+export const ModerationSettingsEventSchema: z.ZodType<ModerationSettingsPayload> = z.object({
+    roomId: z.string().uuid(),
+    ...moderationSettingsShape,
+});
+
+export const WaitingParticipantEventSchema: z.ZodType<WaitingParticipantPayload> = z.object({
+    roomId: z.string().uuid(),
+    userId: z.string().uuid(),
 });
 
 export type CreateUserInput = z.infer<typeof CreateUserSchema>;
@@ -0,0 +1,168 @@
+import type { Participant, Prisma, Room, WaitingRoom } from "@prisma/client";
+import prisma from "../db.js";
+import { ServiceError } from "./errors.js";
+import { can, getRoomRole } from "./permissions.js";
+import type { SocketErrorCode } from "../socket/events.js";
+
+// The outcome of asking to join a room. Everything except admitted and
+// waitlisted is a refusal.
+export type AdmissionResult =
+  | { status: "admitted"; room: Room; participant: Participant }
+  | { status: "waitlisted"; room: Room; entry: WaitingRoom }
+  | { status: "full"; room: Room }
+  | { status: "locked"; room: Room }
+  | { status: "banned"; room: Room }
+  | { status: "inactive"; room: Room };
+
+type Refusal = Exclude<AdmissionResult["status"], "admitted" | "waitlisted">;
+
+const REFUSALS: Record<Refusal, { code: SocketErrorCode; message: string }> = {
+  full: { code: "CONFLICT", message: "Room is full" },
+  locked: { code: "FORBIDDEN", message: "Room is locked" },
+  banned: { code: "FORBIDDEN", message: "You have been banned from this room" },
+  inactive: { code: "ROOM_INACTIVE", message: "Room is not active" },
+};
+
+export function refusalError(status: Refusal, message = REFUSALS[status].message) {
+  return new ServiceError(REFUSALS[status].code, message);
+}
+
+// Takes a row lock on the room for the rest of the transaction. Every admission
+// goes through here, so capacity checks and seat grants for one room run one at a time.
+async function lockRoom(tx: Prisma.TransactionClient, roomId: string) {
+  await tx.$queryRaw`SELECT id FROM "Room" WHERE id = ${roomId} FOR UPDATE`;
+  return tx.room.findUniqueOrThrow({ where: { id: roomId } });
+}
+
+async function isBannedIn(tx: Prisma.TransactionClient, roomId: string, userId: string) {
+  return (await tx.roomBan.findUnique({ where: { userId_roomId: { userId, roomId } } })) !== null;
+}
+
+// Everyone comes back as a guest; a co-host who left has to be made one again
+async function seatParticipant(tx: Prisma.TransactionClient, room: Room, userId: string) {
+  return tx.participant.upsert({
+    where: { userId_roomId: { userId, roomId: room.id } },
+    update: { leftAt: null, role: "GUEST" },
+    create: { userId, roomId: room.id, role: "GUEST" },
+  });
+}
+
+async function hasFreeSeat(tx: Prisma.TransactionClient, room: Room) {
+  return (await tx.participant.count({ where: { roomId: room.id, leftAt: null } })) < room.maxParticipants;
+}
+
+async function findRoomId(where: { id: string } | { code: string }) {
+  const room = await prisma.room.findUnique({ where, select: { id: true } });
+  if (!room) {
+    throw new ServiceError("NOT_FOUND", "Room not found");
+  }
+  return room.id;
+}
+
+// A user asking to join by room id or code (the REST join routes)
+export async function requestAdmission(where: { id: string } | { code: string }, userId: string): Promise<AdmissionResult> {
+  const roomId = await findRoomId(where);
+
+  return prisma.$transaction(async (tx) => {
+    const room = await lockRoom(tx, roomId);
+
+    if (!room.isActive) {
+      return { status: "inactive", room };
+    }
+    if (await isBannedIn(tx, room.id, userId)) {
+      return { status: "banned", room };
+    }
+
+    // Host and co-hosts skip the lock and the waiting room
+    const role = await getRoomRole(room, userId, tx);
+    if (room.isLocked && !can(role, "room:bypass-lock")) {
+      return { status: "locked", room };
+    }
+
+    // Already in the room (another tab, or joining twice): no new seat needed
+    const existing = await tx.participant.findUnique({ where: { userId_roomId: { userId, roomId: room.id } } });
+    if (existing && !existing.leftAt) {
+      return { status: "admitted", room, participant: existing };
+    }
+
+    if (!(await hasFreeSeat(tx, room))) {
+      return { status: "full", room };
+    }
+
+    if (room.waitingRoom && !can(role, "waiting-room:manage")) {
+      const entry = await tx.waitingRoom.upsert({
+        where: { userId_roomId: { userId, roomId: room.id } },
+        update: { status: "PENDING" },
+        create: { userId, roomId: room.id, status: "PENDING" },
+      });
+      return { status: "waitlisted", room, entry };
+    }
+
+    return { status: "admitted", room, participant: await seatParticipant(tx, room, userId) };
+  });
+}
+
+// A host or co-host letting someone in from the waiting room. The decision itself
+// overrides the lock; capacity, bans and the room being active still apply.
+// "not-waiting" means the request was rejected, withdrawn or already decided
+// before the lock was taken.
+export async function admitFromWaitingRoom(
+  roomId: string,
+  userId: string
+): Promise<
+  | Extract<AdmissionResult, { status: "admitted" | "full" | "banned" | "inactive" }>
+  | { status: "not-waiting"; room: Room }
+> {
+  return prisma.$transaction(async (tx) => {
+    const room = await lockRoom(tx, roomId);
+
+    // Locks the entry too, so a concurrent reject or ban either lands first (and
+    // is seen here) or waits and then finds the entry no longer pending
+    const [entry] = await tx.$queryRaw<{ status: string }[]>`
+      SELECT status FROM "WaitingRoom" WHERE "roomId" = ${roomId} AND "userId" = ${userId} FOR UPDATE`;
+    if (entry?.status !== "PENDING") {
+      return { status: "not-waiting", room };
+    }
+
+    if (!room.isActive) {
+      return { status: "inactive", room };
+    }
+    if (await isBannedIn(tx, room.id, userId)) {
+      return { status: "banned", room };
+    }
+    if (!(await hasFreeSeat(tx, room))) {
+      return { status: "full", room };
+    }
+
+    await tx.waitingRoom.update({
+      where: { userId_roomId: { userId, roomId: room.id } },
+      data: { status: "APPROVED" },
+    });
+    return { status: "admitted", room, participant: await seatParticipant(tx, room, userId) };
+  });
+}
+
+// Socket join-room: the seat was granted by one of the calls above, so this only
+// confirms it is still valid. It never takes a new seat.
+export async function requireAdmitted(roomId: string, userId: string) {
+  const room = await prisma.room.findUnique({ where: { id: roomId } });
+  if (!room) {
+    throw new ServiceError("NOT_FOUND", "Room not found");
+  }
+  if (!room.isActive) {
+    throw refusalError("inactive");
+  }
+
+  const [participant, banned] = await Promise.all([
+    prisma.participant.findUnique({ where: { userId_roomId: { userId, roomId } } }),
+    prisma.roomBan.findUnique({ where: { userId_roomId: { userId, roomId } } }),
+  ]);
+  if (banned) {
+    throw refusalError("banned");
+  }
+  if (!participant || participant.leftAt) {
+    throw new ServiceError("FORBIDDEN", "You are not a participant in this room");
+  }
+
+  return { room, participant };
+}
@@ -0,0 +1,51 @@
+import prisma from "../db.js";
+import { ServiceError } from "./errors.js";
+import { authorizeRoomAction } from "./permissions.js";
+import { publicUserSelect } from "./users.js";
+
+// Records the ban, takes away any co-host role and turns down any pending knock from
+// the same user. Removing them from the room itself is up to the caller; the
+// admission service keeps them out.
+export async function banUser(roomId: string, actorId: string, userId: string, reason?: string) {
+  const { room } = await authorizeRoomAction(roomId, actorId, "participants:ban", "Only the host or a co-host can ban participants");
+
+  if (userId === room.hostId || userId === actorId) {
+    throw new ServiceError("FORBIDDEN", "That user cannot be banned from this room");
+  }
+
+  return prisma.$transaction(async (tx) => {
+    await tx.waitingRoom.updateMany({
+      where: { roomId, userId, status: "PENDING" },
+      data: { status: "REJECTED" },
+    });
+    await tx.participant.updateMany({ where: { roomId, userId }, data: { role: "GUEST" } });
+
+    return tx.roomBan.upsert({
+      where: { userId_roomId: { userId, roomId } },
+      update: { reason, bannedById: actorId },
+      create: { userId, roomId, reason, bannedById: actorId },
+    });
+  });
+}
+
+export async function listBans(roomId: string, actorId: string) {
+  await authorizeRoomAction(roomId, actorId, "participants:ban", "Only the host or a co-host can view bans");
+
+  return prisma.roomBan.findMany({
+    where: { roomId },
+    include: {
+      user: { select: publicUserSelect },
+      bannedBy: { select: { id: true, name: true } },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+export async function liftBan(roomId: string, actorId: string, userId: string) {
+  await authorizeRoomAction(roomId, actorId, "participants:ban", "Only the host or a co-host can lift bans");
+
+  const { count } = await prisma.roomBan.deleteMany({ where: { roomId, userId } });
+  if (count === 0) {
+    throw new ServiceError("NOT_FOUND", "That user is not banned from this room");
+  }
+}
@@ -0,0 +1,132 @@
+import prisma from "../db.js";
+import type { ChatHistoryPage, ChatMessage, ChatReactionSummary } from "../socket/events.js";
+
+export const CHAT_PAGE_SIZE = 50;
+
+const messageInclude = {
+  user: { select: { name: true } },
+  reactions: { select: { emoji: true, userId: true }, orderBy: { createdAt: "asc" } },
+} as const;
+
+type ChatMessageRow = {
+  id: string;
+  roomId: string;
+  content: string;
+  createdAt: Date;
+  editedAt: Date | null;
+  deletedAt: Date | null;
+  userId: string;
+  recipientId: string | null;
+  replyToId: string | null;
+  user: { name: string };
+  reactions: { emoji: string; userId: string }[];
+};
+
+function toChatMessage(row: ChatMessageRow): ChatMessage {
+  const reactions = new Map<string, ChatReactionSummary>();
+  for (const { emoji, userId } of row.reactions) {
+    if (!reactions.has(emoji)) {
+      reactions.set(emoji, { emoji, userIds: [] });
+    }
+    reactions.get(emoji)!.userIds.push(userId);
+  }
+
+  const deleted = row.deletedAt !== null;
+  return {
+    id: row.id,
+    roomId: row.roomId,
+    userId: row.userId,
+    userName: row.user.name,
+    // Deleted messages stay in the history as tombstones without their content
+    message: deleted ? "" : row.content,
+    timestamp: row.createdAt.toISOString(),
+    editedAt: row.editedAt?.toISOString() ?? null,
+    deleted,
+    replyToId: row.replyToId,
+    recipientId: row.recipientId,
+    reactions: deleted ? [] : Array.from(reactions.values()),
+  };
+}
+
+// Room messages plus the direct messages the viewer sent or received
+const visibleTo = (viewerId: string) => ({
+  OR: [{ recipientId: null }, { userId: viewerId }, { recipientId: viewerId }],
+});
+
+export async function createChatMessage(
+  roomId: string,
+  userId: string,
+  content: string,
+  { replyToId, recipientId }: { replyToId?: string; recipientId?: string } = {}
+): Promise<ChatMessage> {
+  const row = await prisma.chatMessage.create({
+    data: { roomId, userId, content, replyToId, recipientId },
+    include: messageInclude,
+  });
+  return toChatMessage(row);
+}
+
+// Returns the message only if it belongs to the room and the viewer is allowed to see it
+export async function findVisibleChatMessage(roomId: string, messageId: string, viewerId: string) {
+  const row = await prisma.chatMessage.findFirst({
+    where: { id: messageId, roomId, ...visibleTo(viewerId) },
+    include: messageInclude,
+  });
+  return row ? toChatMessage(row) : null;
+}
+
+export async function editChatMessage(messageId: string, content: string): Promise<ChatMessage> {
+  const row = await prisma.chatMessage.update({
+    where: { id: messageId },
+    data: { content, editedAt: new Date() },
+    include: messageInclude,
+  });
+  return toChatMessage(row);
+}
+
+export async function deleteChatMessage(messageId: string): Promise<ChatMessage> {
+  const row = await prisma.chatMessage.update({
+    where: { id: messageId },
+    data: { deletedAt: new Date(), reactions: { deleteMany: {} } },
+    include: messageInclude,
+  });
+  return toChatMessage(row);
+}
+
+export async function addChatReaction(messageId: string, userId: string, emoji: string): Promise<ChatMessage> {
+  await prisma.chatReaction.upsert({
+    where: { messageId_userId_emoji: { messageId, userId, emoji } },
+    update: {},
+    create: { messageId, userId, emoji },
+  });
+  return toChatMessage(await prisma.chatMessage.findUniqueOrThrow({ where: { id: messageId }, include: messageInclude }));
+}
+
+export async function removeChatReaction(messageId: string, userId: string, emoji: string): Promise<ChatMessage> {
+  await prisma.chatReaction.deleteMany({ where: { messageId, userId, emoji } });
+  return toChatMessage(await prisma.chatMessage.findUniqueOrThrow({ where: { id: messageId }, include: messageInclude }));
+}
+
+// Pages backwards from the newest message the viewer can see. `cursor` is the id of
+// the oldest message the client already has; each page is returned in chronological order.
+export async function getChatHistory(
+  roomId: string,
+  viewerId: string,
+  { cursor, limit = CHAT_PAGE_SIZE }: { cursor?: string; limit?: number } = {}
+): Promise<ChatHistoryPage> {
+  const rows = await prisma.chatMessage.findMany({
+    where: { roomId, ...visibleTo(viewerId) },
+    include: messageInclude,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  });
+
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit).reverse();
+
+  return {
+    messages: page.map(toChatMessage),
+    nextCursor: hasMore && page.length > 0 ? page[0].id : null,
+  };
+}
@@ -0,0 +1,123 @@
+import type { ClockSyncSample, Recording } from "@prisma/client";
+import prisma from "../db.js";
+
+// Only the fastest exchanges are trusted for the offset: a slow round trip is usually
+// asymmetric (queued in one direction), which skews the estimate by up to half the RTT
+const BEST_SAMPLE_FRACTION = 0.5;
+
+// The four timestamps of one ping/pong exchange, each on its own clock:
+// t0 server sends, t1 client receives, t2 client replies, t3 server receives
+export interface ClockExchange {
+  serverSentAt: number;
+  clientReceivedAt: number;
+  clientSentAt: number;
+  serverReceivedAt: number;
+}
+
+export interface ClockEstimate {
+  offsetMs: number;
+  rttMs: number;
+}
+
+// Standard NTP arithmetic. Null when the timestamps are inconsistent (negative RTT).
+export function estimateFromExchange(exchange: ClockExchange): ClockEstimate | null {
+  const { serverSentAt: t0, clientReceivedAt: t1, clientSentAt: t2, serverReceivedAt: t3 } = exchange;
+  const rttMs = t3 - t0 - (t2 - t1);
+  if (rttMs < 0) {
+    return null;
+  }
+  return { offsetMs: (t1 - t0 + (t2 - t3)) / 2, rttMs };
+}
+
+export async function recordClockSample(sessionId: string, userId: string, estimate: ClockEstimate) {
+  await prisma.clockSyncSample.create({ data: { sessionId, userId, ...estimate } });
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Least-squares slope of offset over time, in parts per million: how fast the
+// participant's clock runs ahead of (positive) or behind the server's
+function driftPpm(samples: ClockSyncSample[]) {
+  if (samples.length < 2) return 0;
+
+  const start = samples[0].measuredAt.getTime();
+  const xs = samples.map((sample) => sample.measuredAt.getTime() - start);
+  const ys = samples.map((sample) => sample.offsetMs);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+
+  let covariance = 0;
+  let variance = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  return variance > 0 ? (covariance / variance) * 1e6 : 0;
+}
+
+export function summarizeClockSamples(samples: ClockSyncSample[]) {
+  if (samples.length === 0) {
+    return null;
+  }
+
+  const byRtt = [...samples].sort((a, b) => a.rttMs - b.rttMs);
+  const best = byRtt.slice(0, Math.max(1, Math.ceil(byRtt.length * BEST_SAMPLE_FRACTION)));
+  const offsets = samples.map((sample) => sample.offsetMs);
+  const meanOffset = offsets.reduce((sum, offset) => sum + offset, 0) / offsets.length;
+
+  return {
+    samples: samples.length,
+    offsetMs: median(best.map((sample) => sample.offsetMs)),
+    rttMs: median(best.map((sample) => sample.rttMs)),
+    minRttMs: byRtt[0].rttMs,
+    maxRttMs: byRtt[byRtt.length - 1].rttMs,
+    medianRttMs: median(samples.map((sample) => sample.rttMs)),
+    offsetStdDevMs: Math.sqrt(offsets.reduce((sum, offset) => sum + (offset - meanOffset) ** 2, 0) / offsets.length),
+    driftPpm: driftPpm(samples),
+    firstSampleAt: samples[0].measuredAt,
+    lastSampleAt: samples[samples.length - 1].measuredAt,
+  };
+}
+
+function findTrackSamples(recording: Pick<Recording, "sessionId" | "userId">) {
+  return prisma.clockSyncSample.findMany({
+    where: { sessionId: recording.sessionId!, userId: recording.userId },
+    orderBy: { measuredAt: "asc" },
+  });
+}
+
+// Stores the track's clock offset from the samples taken during its take. Runs both
+// when the upload completes and when the take stops, since either can happen last.
+export async function alignRecording(recording: Recording): Promise<Recording> {
+  if (!recording.sessionId) {
+    return recording;
+  }
+
+  const summary = summarizeClockSamples(await findTrackSamples(recording));
+  if (!summary) {
+    return recording;
+  }
+
+  return prisma.recording.update({
+    where: { id: recording.id },
+    data: { clockOffsetMs: summary.offsetMs, clockRttMs: summary.rttMs },
+  });
+}
+
+// Offset and RTT statistics for one track, with the raw samples, for chasing drift
+export async function getClockSyncStats(recording: Recording) {
+  const samples = recording.sessionId ? await findTrackSamples(recording) : [];
+
+  return {
+    recordingId: recording.id,
+    sessionId: recording.sessionId,
+    clockOffsetMs: recording.clockOffsetMs,
+    clockRttMs: recording.clockRttMs,
+    summary: summarizeClockSamples(samples),
+    samples: samples.map(({ offsetMs, rttMs, measuredAt }) => ({ offsetMs, rttMs, measuredAt })),
+  };
+}
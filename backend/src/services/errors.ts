@@ -0,0 +1,26 @@
+import type { SocketErrorCode } from "../socket/events.js";
+
+// Thrown by services shared between REST routes and socket handlers. The code is
+// the socket error code; routes turn it into an HTTP status with httpStatusOf.
+export class ServiceError extends Error {
+  constructor(
+    public code: SocketErrorCode,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const HTTP_STATUS: Record<SocketErrorCode, number> = {
+  INVALID_PAYLOAD: 400,
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409,
+  NOT_IN_ROOM: 400,
+  ROOM_INACTIVE: 400,
+  INTERNAL_ERROR: 500,
+};
+
+export function httpStatusOf(code: SocketErrorCode): number {
+  return HTTP_STATUS[code];
+}
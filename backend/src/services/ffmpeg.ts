@@ -0,0 +1,64 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { PermanentJobError } from "./jobs.js";
+
+const exec = promisify(execFile);
+
+// Read at call time rather than import time, after dotenv has run
+export const ffmpegPath = () => process.env.FFMPEG_PATH ?? "ffmpeg";
+const ffprobePath = () => process.env.FFPROBE_PATH ?? "ffprobe";
+export const ffmpegTimeoutMs = () => Number(process.env.FFMPEG_TIMEOUT_MS ?? 30 * 60 * 1000);
+
+export async function runFfmpeg(args: string[]) {
+  return exec(ffmpegPath(), args, { timeout: ffmpegTimeoutMs(), maxBuffer: 64 * 1024 * 1024 });
+}
+
+export interface MediaInfo {
+  hasAudio: boolean;
+  hasVideo: boolean;
+  durationSeconds: number;
+  // Of the first video stream
+  width?: number;
+  height?: number;
+}
+
+interface ProbeOutput {
+  streams?: { codec_type?: string; width?: number; height?: number }[];
+  format?: { duration?: string };
+}
+
+// Rejects anything ffprobe can't read or that has nothing to play
+export async function probe(input: string): Promise<MediaInfo> {
+  let stdout: string;
+  try {
+    ({ stdout } = await exec(
+      ffprobePath(),
+      ["-v", "error", "-print_format", "json", "-show_format", "-show_streams", input],
+      { timeout: ffmpegTimeoutMs(), maxBuffer: 64 * 1024 * 1024 }
+    ));
+  } catch (error) {
+    const { code, stderr } = error as NodeJS.ErrnoException & { stderr?: string };
+    // ffprobe missing or killed is an environment problem worth retrying; a non-zero exit means bad media
+    if (typeof code !== "number") throw error;
+    throw new PermanentJobError(`Not a readable media file: ${stderr?.trim() || "ffprobe failed"}`);
+  }
+
+  const info = JSON.parse(stdout) as ProbeOutput;
+  const streams = info.streams ?? [];
+  const video = streams.find((stream) => stream.codec_type === "video");
+  const media: MediaInfo = {
+    hasAudio: streams.some((stream) => stream.codec_type === "audio"),
+    hasVideo: video !== undefined,
+    durationSeconds: Number(info.format?.duration ?? 0),
+    width: video?.width,
+    height: video?.height,
+  };
+
+  if (!media.hasAudio && !media.hasVideo) {
+    throw new PermanentJobError("The file has no audio or video streams");
+  }
+  if (!(media.durationSeconds > 0)) {
+    throw new PermanentJobError("The file has no playable duration");
+  }
+  return media;
+}
@@ -0,0 +1,99 @@
+import { mkdir, mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import type { Job, Recording } from "@prisma/client";
+import prisma from "../db.js";
+import { runFfmpeg } from "./ffmpeg.js";
+import { JobHandler, PermanentJobError, storeJobOutput } from "./jobs.js";
+import { getStorage, recordingKey } from "./storage.js";
+
+// Target segment length. Video is cut on keyframes, which processing forces every
+// HLS_KEYFRAME_INTERVAL seconds, so segments come out this long.
+const HLS_SEGMENT_SECONDS = 6;
+export const HLS_KEYFRAME_INTERVAL = 2;
+
+export const HLS_PLAYLIST = "index.m3u8";
+
+// Everything in the rendition, under recordings/<id>/hls/
+export const hlsKey = (recordingId: string, file: string) => recordingKey(recordingId, `hls/${file}`);
+
+// File names ffmpeg writes: the playlist, init.mp4 and seg00000.m4s onwards
+export const HLS_FILE_NAME = /^(index\.m3u8|init\.mp4|seg\d{5}\.m4s)$/;
+
+// Storage key of one file of a recording's rendition, or null if it has none yet or
+// the name isn't one packaging writes, which also keeps out names like "../original"
+export function hlsFileKey(recording: Pick<Recording, "id" | "hlsKey">, file: string) {
+  if (!recording.hlsKey || !HLS_FILE_NAME.test(file)) return null;
+  return hlsKey(recording.id, file);
+}
+
+// Processing writes video to .mp4 and audio-only tracks to .m4a
+export const hasVideoRendition = (processedKey: string) => path.extname(processedKey) === ".mp4";
+
+export function hlsContentType(file: string, hasVideo: boolean) {
+  if (file.endsWith(".m3u8")) return "application/vnd.apple.mpegurl";
+  if (file.endsWith(".m4s")) return hasVideo ? "video/iso.segment" : "audio/iso.segment";
+  return hasVideo ? "video/mp4" : "audio/mp4";
+}
+
+// Repackages the processed file as VOD HLS with fragmented-MP4 segments. The
+// streams are already H.264/AAC, so they are copied rather than re-encoded.
+async function packageHls(job: Job) {
+  const recording = await prisma.recording.findUnique({ where: { id: job.recordingId } });
+  if (!recording?.processedKey) {
+    throw new PermanentJobError("The recording has no processed file to package");
+  }
+
+  const workDir = await mkdtemp(path.join(tmpdir(), "hls-"));
+  try {
+    const input = path.join(workDir, "source");
+    await getStorage().getFile(recording.processedKey, input);
+    const hasVideo = hasVideoRendition(recording.processedKey);
+
+    const outputDir = path.join(workDir, "hls");
+    await mkdir(outputDir);
+    await runFfmpeg([
+      "-y",
+      "-v",
+      "error",
+      "-i",
+      input,
+      "-map",
+      "0",
+      "-c",
+      "copy",
+      "-f",
+      "hls",
+      "-hls_time",
+      String(HLS_SEGMENT_SECONDS),
+      "-hls_playlist_type",
+      "vod",
+      "-hls_segment_type",
+      "fmp4",
+      "-hls_fmp4_init_filename",
+      "init.mp4",
+      "-hls_segment_filename",
+      path.join(outputDir, "seg%05d.m4s"),
+      path.join(outputDir, HLS_PLAYLIST),
+    ]);
+
+    // Clear out any earlier attempt, then upload the playlist last so it never
+    // names a segment that isn't there yet
+    await getStorage().deletePrefix(hlsKey(recording.id, ""));
+    const files = (await readdir(outputDir)).filter((file) => file !== HLS_PLAYLIST);
+    for (const file of [...files, HLS_PLAYLIST]) {
+      const contentType = hlsContentType(file, hasVideo);
+      await storeJobOutput(recording.id, hlsKey(recording.id, file), path.join(outputDir, file), contentType);
+    }
+
+    await prisma.recording.updateMany({
+      where: { id: recording.id },
+      data: { hlsKey: hlsKey(recording.id, HLS_PLAYLIST) },
+    });
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+// Like previews, HLS is an extra: without it the recording still plays progressively
+export const hlsJob: JobHandler = { run: packageHls };
@@ -0,0 +1,181 @@
+import type { Job, JobKind } from "@prisma/client";
+import prisma from "../db.js";
+import { getStorage } from "./storage.js";
+
+// How often an idle worker looks for new jobs
+const POLL_INTERVAL_MS = 2000;
+// A running job's worker refreshes its lock this often. A job whose lock is older
+// than the lease has lost its worker (crash, restart) and is handed out again.
+const HEARTBEAT_MS = 60 * 1000;
+const LEASE_MS = 5 * HEARTBEAT_MS;
+// Retry delays double from the base up to the cap, with some jitter so a batch of
+// failures doesn't retry in lockstep
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+// Thrown by a handler when retrying can't help (e.g. the file isn't media at all)
+export class PermanentJobError extends Error {}
+
+export interface JobHandler {
+  run(job: Job): Promise<void>;
+  // Called once the job has failed for good
+  failed?(job: Job, reason: string): Promise<void>;
+}
+
+export async function enqueueJob(recordingId: string, kind: JobKind, options: { maxAttempts?: number } = {}) {
+  return prisma.job.create({ data: { recordingId, kind, maxAttempts: options.maxAttempts } });
+}
+
+// Stops the recording's queued and running jobs, e.g. because it is being deleted.
+// A handler already running finds out when it next stores a file.
+export async function cancelJobs(recordingId: string, reason: string) {
+  await prisma.job.updateMany({
+    where: { recordingId, status: { in: ["PENDING", "RUNNING"] } },
+    data: { status: "FAILED", finishedAt: new Date(), lockedAt: null, lastError: reason },
+  });
+}
+
+async function isBeingDeleted(recordingId: string) {
+  const recording = await prisma.recording.findUnique({ where: { id: recordingId }, select: { deletedAt: true } });
+  return !recording || recording.deletedAt !== null;
+}
+
+// Stores a file a job made for its recording. If deletion started before the file
+// was in, the deletion may already have cleared the recording's files, so this
+// removes it again; if it started later, the deletion clears it.
+export async function storeJobOutput(recordingId: string, key: string, filePath: string, contentType?: string | null) {
+  if (await isBeingDeleted(recordingId)) {
+    throw new PermanentJobError("The recording has been deleted");
+  }
+
+  const storage = getStorage();
+  await storage.putFile(key, filePath, contentType);
+  if (await isBeingDeleted(recordingId)) {
+    await storage.deletePrefix(key);
+    throw new PermanentJobError("The recording has been deleted");
+  }
+}
+
+// Atomically hands the next due job to this worker. SKIP LOCKED lets any number of
+// workers, in any number of processes, poll the table without ever sharing a job.
+async function claimNextJob(): Promise<Job | null> {
+  const now = new Date();
+  const leaseExpired = new Date(now.getTime() - LEASE_MS);
+
+  const [job] = await prisma.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET "status" = 'RUNNING', "attempts" = "attempts" + 1, "lockedAt" = ${now}, "updatedAt" = ${now}
+    WHERE "id" = (
+      SELECT "id" FROM "Job"
+      WHERE ("status" = 'PENDING' AND "runAt" <= ${now})
+         OR ("status" = 'RUNNING' AND "lockedAt" < ${leaseExpired} AND "attempts" < "maxAttempts")
+      ORDER BY "runAt"
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *`;
+  return job ?? null;
+}
+
+// Jobs whose worker died on their last attempt: failed for good rather than run again
+async function failAbandonedJobs(handlers: Record<JobKind, JobHandler>) {
+  const now = new Date();
+  const leaseExpired = new Date(now.getTime() - LEASE_MS);
+  const reason = "The worker running the last attempt stopped responding";
+
+  const jobs = await prisma.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET "status" = 'FAILED', "finishedAt" = ${now}, "lockedAt" = NULL, "lastError" = ${reason}, "updatedAt" = ${now}
+    WHERE "status" = 'RUNNING' AND "lockedAt" < ${leaseExpired} AND "attempts" >= "maxAttempts"
+    RETURNING *`;
+  for (const job of jobs) {
+    console.error(`Job ${job.id} (${job.kind}) failed on attempt ${job.attempts}:`, reason);
+    await handlers[job.kind].failed?.(job, reason);
+  }
+}
+
+function retryDelayMs(attempt: number) {
+  const delay = Math.min(RETRY_BASE_MS * 2 ** (attempt - 1), RETRY_MAX_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+// Keeps the job's lease alive while the handler runs, which can be far longer than
+// the lease (a download and two ffmpeg passes). The attempt count identifies this
+// claim, so a worker never refreshes a lease another worker has taken over.
+function keepLeased(job: Job) {
+  const timer = setInterval(() => {
+    prisma.job
+      .updateMany({ where: { id: job.id, status: "RUNNING", attempts: job.attempts }, data: { lockedAt: new Date() } })
+      .catch((error) => console.error(`Failed to refresh the lease on job ${job.id}:`, error));
+  }, HEARTBEAT_MS);
+  return () => clearInterval(timer);
+}
+
+async function runJob(job: Job, handler: JobHandler) {
+  const release = keepLeased(job);
+  try {
+    await handler.run(job);
+    release();
+    await prisma.job.updateMany({
+      where: { id: job.id },
+      data: { status: "SUCCEEDED", finishedAt: new Date(), lockedAt: null },
+    });
+  } catch (error) {
+    release();
+    const reason = error instanceof Error ? error.message : String(error);
+    const retry = !(error instanceof PermanentJobError) && job.attempts < job.maxAttempts;
+    console.error(`Job ${job.id} (${job.kind}) failed on attempt ${job.attempts}:`, reason);
+
+    // updateMany: the recording (and with it the job) may have been deleted meanwhile
+    if (retry) {
+      await prisma.job.updateMany({
+        where: { id: job.id },
+        data: {
+          status: "PENDING",
+          runAt: new Date(Date.now() + retryDelayMs(job.attempts)),
+          lockedAt: null,
+          lastError: reason,
+        },
+      });
+      return;
+    }
+
+    await prisma.job.updateMany({
+      where: { id: job.id },
+      data: { status: "FAILED", finishedAt: new Date(), lockedAt: null, lastError: reason },
+    });
+    await handler.failed?.(job, reason);
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function runWorker(handlers: Record<JobKind, JobHandler>) {
+  for (;;) {
+    try {
+      await failAbandonedJobs(handlers);
+      const job = await claimNextJob();
+      if (!job) {
+        await sleep(POLL_INTERVAL_MS);
+        continue;
+      }
+      await runJob(job, handlers[job.kind]);
+    } catch (error) {
+      // Database hiccup; back off and keep going
+      console.error("Job worker error:", error);
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+}
+
+// JOB_WORKERS sets how many jobs this process runs at once; 0 leaves processing
+// to other instances
+export function startJobWorkers(handlers: Record<JobKind, JobHandler>) {
+  const count = Number(process.env.JOB_WORKERS ?? 1);
+  for (let i = 0; i < count; i++) {
+    void runWorker(handlers);
+  }
+  if (count > 0) {
+    console.log(`Job workers: ${count}`);
+  }
+}
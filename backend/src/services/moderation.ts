@@ -0,0 +1,75 @@
+import type { Room } from "@prisma/client";
+import prisma from "../db.js";
+import { ServiceError } from "./errors.js";
+import { authorizeRoomAction, can } from "./permissions.js";
+import { getRealtime } from "./realtime.js";
+import { getUserName } from "./users.js";
+import type { ChatModeName, ParticipantRoleName, RoomSettings } from "../socket/events.js";
+
+export function toRoomSettings(room: Room): RoomSettings {
+  return {
+    videoEnabled: room.videoEnabled,
+    audioOnly: room.audioOnly,
+    maxParticipants: room.maxParticipants,
+    guestScreenShare: room.guestScreenShare,
+    isLocked: room.isLocked,
+    guestUnmute: room.guestUnmute,
+    chatMode: room.chatMode,
+  };
+}
+
+export async function updateModerationSettings(
+  roomId: string,
+  actorId: string,
+  changes: { isLocked?: boolean; guestUnmute?: boolean; chatMode?: ChatModeName }
+): Promise<RoomSettings> {
+  await authorizeRoomAction(roomId, actorId, "room:moderate", "Only the host or a co-host can moderate this room");
+
+  const room = await prisma.room.update({ where: { id: roomId }, data: changes });
+  const settings = toRoomSettings(room);
+
+  getRealtime().io.to(roomId).emit("room-settings-changed", { roomId, settings, changedBy: await getUserName(actorId) });
+  return settings;
+}
+
+// Mutes everyone in the room except the host and whoever asked. Returns who was muted.
+export async function muteAll(roomId: string, actorId: string): Promise<string[]> {
+  const { room } = await authorizeRoomAction(
+    roomId,
+    actorId,
+    "participants:mute",
+    "Only the host or a co-host can mute participants"
+  );
+  const { io, presence } = getRealtime();
+
+  const targets = (await presence.list(roomId)).filter(
+    (participant) => participant.userId !== room.hostId && participant.userId !== actorId
+  );
+  for (const participant of targets) {
+    await presence.update(roomId, participant.userId, { isMuted: true });
+  }
+
+  const userIds = targets.map((participant) => participant.userId);
+  io.to(roomId).emit("room-muted-by-host", { roomId, userIds, mutedBy: await getUserName(actorId) });
+  return userIds;
+}
+
+// Enforces the room's chat mode for someone about to post, edit or react
+export async function requireChatAllowed(roomId: string, role: ParticipantRoleName) {
+  const room = await prisma.room.findUnique({ where: { id: roomId }, select: { chatMode: true } });
+
+  if (room?.chatMode === "DISABLED") {
+    throw new ServiceError("FORBIDDEN", "Chat is turned off in this room");
+  }
+  if (room?.chatMode === "HOSTS_ONLY" && !can(role, "chat:bypass-hosts-only")) {
+    throw new ServiceError("FORBIDDEN", "Only the host and co-hosts can chat in this room");
+  }
+}
+
+export async function requireUnmuteAllowed(roomId: string, role: ParticipantRoleName) {
+  const room = await prisma.room.findUnique({ where: { id: roomId }, select: { guestUnmute: true } });
+
+  if (room && !room.guestUnmute && !can(role, "audio:bypass-guest-unmute")) {
+    throw new ServiceError("FORBIDDEN", "The host has turned off unmuting for guests");
+  }
+}
@@ -0,0 +1,124 @@
+import type { Prisma, Room } from "@prisma/client";
+import prisma from "../db.js";
+import { ServiceError } from "./errors.js";
+import type { ParticipantRoleName } from "../socket/events.js";
+
+// Everything a room member may be allowed to do beyond taking part
+export type RoomAction =
+  | "room:update"
+  | "room:end"
+  | "room:delete"
+  | "room:transfer-host"
+  | "room:moderate"
+  | "room:bypass-lock"
+  | "participants:set-role"
+  | "participants:mute"
+  | "participants:remove"
+  | "participants:ban"
+  | "waiting-room:manage"
+  | "chat:moderate"
+  | "chat:bypass-hosts-only"
+  | "audio:bypass-guest-unmute"
+  | "hands:manage"
+  | "recording:manage"
+  | "screen-share:take-floor"
+  | "screen-share:bypass-guest-setting";
+
+const HOST_ONLY: readonly ParticipantRoleName[] = ["HOST"];
+const MODERATORS: readonly ParticipantRoleName[] = ["HOST", "CO_HOST"];
+
+// The single source of truth for room permissions. Co-hosts moderate alongside the
+// host; only the host can change who runs the room or end and delete it.
+const ROOM_POLICY: Record<RoomAction, readonly ParticipantRoleName[]> = {
+  "room:update": MODERATORS,
+  "room:end": HOST_ONLY,
+  "room:delete": HOST_ONLY,
+  "room:transfer-host": HOST_ONLY,
+  "room:moderate": MODERATORS,
+  "room:bypass-lock": MODERATORS,
+  "participants:set-role": HOST_ONLY,
+  "participants:mute": MODERATORS,
+  "participants:remove": MODERATORS,
+  "participants:ban": MODERATORS,
+  "waiting-room:manage": MODERATORS,
+  "chat:moderate": MODERATORS,
+  "chat:bypass-hosts-only": MODERATORS,
+  "audio:bypass-guest-unmute": MODERATORS,
+  "hands:manage": MODERATORS,
+  "recording:manage": MODERATORS,
+  "screen-share:take-floor": MODERATORS,
+  "screen-share:bypass-guest-setting": MODERATORS,
+};
+
+export function can(role: ParticipantRoleName | null | undefined, action: RoomAction): boolean {
+  return role ? ROOM_POLICY[action].includes(role) : false;
+}
+
+// Room.hostId is authoritative for who the host is; other roles come from the
+// participant row. Returns null for users who aren't in the room right now: never
+// joined, left or removed, or banned. Their old role carries no rights.
+export async function getRoomRole(
+  room: Pick<Room, "id" | "hostId">,
+  userId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<ParticipantRoleName | null> {
+  if (room.hostId === userId) {
+    return "HOST";
+  }
+
+  const where = { userId_roomId: { userId, roomId: room.id } };
+  const participant = await db.participant.findUnique({ where, select: { role: true, leftAt: true } });
+  if (!participant || participant.leftAt) {
+    return null;
+  }
+  if (await db.roomBan.findUnique({ where, select: { userId: true } })) {
+    return null;
+  }
+  // A stale HOST row (left over from a host transfer) carries no host rights
+  return participant.role === "HOST" ? "GUEST" : participant.role;
+}
+
+// Loads the room and checks the user is in it right now: the host, or a participant
+// who hasn't left or been removed and isn't banned
+export async function authorizeRoomMember(roomId: string, userId: string, message: string) {
+  const room = await prisma.room.findUnique({ where: { id: roomId } });
+  if (!room) {
+    throw new ServiceError("NOT_FOUND", "Room not found");
+  }
+
+  const role = await getRoomRole(room, userId);
+  if (!role) {
+    throw new ServiceError("FORBIDDEN", message);
+  }
+
+  return { room, role };
+}
+
+// Everyone currently in the room who may perform the action, e.g. to notify them
+export async function getUsersAllowedTo(room: Pick<Room, "id" | "hostId">, action: RoomAction): Promise<string[]> {
+  const roles = ROOM_POLICY[action].filter((role) => role !== "HOST");
+  const participants = roles.length
+    ? await prisma.participant.findMany({
+        where: { roomId: room.id, leftAt: null, role: { in: roles }, userId: { not: room.hostId } },
+        select: { userId: true },
+      })
+    : [];
+
+  const userIds = participants.map((participant) => participant.userId);
+  return can("HOST", action) ? [room.hostId, ...userIds] : userIds;
+}
+
+// Loads the room and checks the user may perform the action on it
+export async function authorizeRoomAction(roomId: string, userId: string, action: RoomAction, message: string) {
+  const room = await prisma.room.findUnique({ where: { id: roomId } });
+  if (!room) {
+    throw new ServiceError("NOT_FOUND", "Room not found");
+  }
+
+  const role = await getRoomRole(room, userId);
+  if (!can(role, action)) {
+    throw new ServiceError("FORBIDDEN", message);
+  }
+
+  return { room, role: role! };
+}
@@ -0,0 +1,100 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Recording } from "@prisma/client";
+import prisma from "../db.js";
+import { ServiceError } from "./errors.js";
+import { signingSecret } from "./storage.js";
+
+// Players can't send an Authorization header (a <video> src, hls.js fetching
+// segments), so playback URLs carry a signature in the query string instead, the way
+// local storage signs /api/files URLs. Access is checked when the URLs are issued;
+// URLs issued through a share link also name the link, and stop working with it.
+
+// Long enough to get through a long take with pauses; players then ask for new URLs
+export const playbackUrlTtl = () => Number(process.env.PLAYBACK_URL_TTL ?? 4 * 60 * 60);
+
+export interface PlaybackSignature {
+  expires: number;
+  signature: string;
+  shareLinkId?: string;
+}
+
+function signPlayback(recordingId: string, expires: number, shareLinkId = "") {
+  return createHmac("sha256", signingSecret())
+    .update(`playback\n${recordingId}\n${expires}\n${shareLinkId}`)
+    .digest("base64url");
+}
+
+export function playbackSignatureOf(query: Record<string, unknown>): PlaybackSignature {
+  return {
+    expires: Number(query.expires),
+    signature: typeof query.signature === "string" ? query.signature : "",
+    shareLinkId: typeof query.share === "string" ? query.share : undefined,
+  };
+}
+
+export function playbackQuery({ expires, signature, shareLinkId }: PlaybackSignature) {
+  const query = new URLSearchParams({ expires: String(expires), signature });
+  if (shareLinkId) query.set("share", shareLinkId);
+  return query.toString();
+}
+
+export function verifyPlayback(recordingId: string, { expires, signature, shareLinkId }: PlaybackSignature) {
+  if (!Number.isFinite(expires) || expires < Date.now() / 1000) {
+    return false;
+  }
+  const expected = Buffer.from(signPlayback(recordingId, expires, shareLinkId));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Signed progressive and HLS URLs for a recording the caller has already been
+// authorized to view, directly or through the given share link. hlsUrl is null
+// until the rendition has been packaged.
+export function getPlaybackUrls(
+  recording: Pick<Recording, "id" | "hlsKey">,
+  expiresIn = playbackUrlTtl(),
+  shareLinkId?: string
+) {
+  const expires = Math.floor(Date.now() / 1000) + expiresIn;
+  const query = playbackQuery({ expires, signature: signPlayback(recording.id, expires, shareLinkId), shareLinkId });
+  const base = `${process.env.PUBLIC_URL ?? ""}/api/recordings/${encodeURIComponent(recording.id)}`;
+
+  return {
+    streamUrl: `${base}/stream?${query}`,
+    hlsUrl: recording.hlsKey ? `${base}/hls/index.m3u8?${query}` : null,
+    expiresAt: new Date(expires * 1000).toISOString(),
+  };
+}
+
+// The recording behind a signed playback request
+export async function findPlayableRecording(recordingId: string, signature: PlaybackSignature) {
+  if (!verifyPlayback(recordingId, signature)) {
+    throw new ServiceError("FORBIDDEN", "Invalid or expired link");
+  }
+  if (signature.shareLinkId) {
+    const link = await prisma.shareLink.findUnique({ where: { id: signature.shareLinkId } });
+    if (!link || link.revokedAt || (link.expiresAt && link.expiresAt <= new Date())) {
+      throw new ServiceError("FORBIDDEN", "This link is no longer available");
+    }
+  }
+  const recording = await prisma.recording.findUnique({ where: { id: recordingId } });
+  if (!recording) {
+    throw new ServiceError("NOT_FOUND", "Recording not found");
+  }
+  return recording;
+}
+
+// The playlist names its init segment and media segments by relative URI, which
+// would drop the signature; this carries it over to each of them
+export function signPlaylist(playlist: string, query: string) {
+  return playlist
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("#EXT-X-MAP:")) {
+        return line.replace(/URI="([^"]*)"/, (_match, uri: string) => `URI="${uri}?${query}"`);
+      }
+      if (line.trim() === "" || line.startsWith("#")) return line;
+      return `${line.trimEnd()}?${query}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,186 @@
+import { spawn } from "child_process";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import type { Job, Prisma, Recording } from "@prisma/client";
+import prisma from "../db.js";
+import { MediaInfo, ffmpegPath, ffmpegTimeoutMs, probe, runFfmpeg } from "./ffmpeg.js";
+import { JobHandler, PermanentJobError, storeJobOutput } from "./jobs.js";
+import { getStorage, recordingKey, signedUrlTtl } from "./storage.js";
+
+// Waveform resolution: at 48 kHz, 512 samples per pixel is ~94 peaks a second,
+// enough to zoom in to word level
+const WAVEFORM_SAMPLE_RATE = 48000;
+const WAVEFORM_SAMPLES_PER_PIXEL = 512;
+
+// Sprite sheets hold at most this many thumbnails, one every second or more
+const SPRITE_MAX_THUMBNAILS = 100;
+const SPRITE_COLUMNS = 10;
+const THUMBNAIL_WIDTH = 160;
+
+// Where each thumbnail sits in the sprite sheet: thumbnail n covers
+// [n * interval, (n + 1) * interval) seconds and is at column n % columns, row n / columns
+export type SpriteLayout = {
+  interval: number;
+  count: number;
+  columns: number;
+  rows: number;
+  width: number;
+  height: number;
+};
+
+// Min/max peaks in the audiowaveform JSON format (version 2, 8-bit, mono), which
+// peaks.js and wavesurfer.js read directly. The audio is decoded as a stream, so
+// hours-long tracks never sit in memory.
+async function writeWaveform(input: string, output: string) {
+  const data: number[] = [];
+  let min = 0;
+  let max = 0;
+  let inBucket = 0;
+  let leftover: Buffer | null = null;
+
+  const decoder = spawn(
+    ffmpegPath(),
+    ["-v", "error", "-i", input, "-vn", "-ac", "1", "-ar", String(WAVEFORM_SAMPLE_RATE), "-f", "s16le", "-"],
+    { timeout: ffmpegTimeoutMs() }
+  );
+
+  const finished = new Promise<void>((resolve, reject) => {
+    decoder.on("error", reject);
+    decoder.on("close", (code) =>
+      code === 0 ? resolve() : reject(new Error(`ffmpeg exited with ${code} while decoding the waveform`))
+    );
+  });
+
+  for await (const chunk of decoder.stdout as AsyncIterable<Buffer>) {
+    // Samples are 2 bytes; a chunk can end halfway through one
+    const buffer: Buffer = leftover ? Buffer.concat([leftover, chunk]) : chunk;
+    const usable = buffer.length - (buffer.length % 2);
+    leftover = usable < buffer.length ? buffer.subarray(usable) : null;
+
+    for (let offset = 0; offset < usable; offset += 2) {
+      const sample = buffer.readInt16LE(offset);
+      if (sample < min) min = sample;
+      if (sample > max) max = sample;
+
+      if (++inBucket === WAVEFORM_SAMPLES_PER_PIXEL) {
+        data.push(min >> 8, max >> 8);
+        min = max = inBucket = 0;
+      }
+    }
+  }
+  if (inBucket > 0) {
+    data.push(min >> 8, max >> 8);
+  }
+  await finished;
+
+  const waveform = {
+    version: 2,
+    channels: 1,
+    sample_rate: WAVEFORM_SAMPLE_RATE,
+    samples_per_pixel: WAVEFORM_SAMPLES_PER_PIXEL,
+    bits: 8,
+    length: data.length / 2,
+    data,
+  };
+  await writeFile(output, JSON.stringify(waveform));
+}
+
+// A representative frame: a little way in, past any fade from black
+async function writePoster(input: string, output: string, media: MediaInfo) {
+  const at = Math.min(media.durationSeconds * 0.1, 30);
+  const args = ["-y", "-v", "error", "-ss", at.toFixed(3), "-i", input];
+  args.push("-frames:v", "1", "-vf", "scale='min(1280,iw)':-2", "-q:v", "3", output);
+  await runFfmpeg(args);
+}
+
+async function writeSprite(input: string, output: string, media: MediaInfo): Promise<SpriteLayout> {
+  const interval = Math.max(1, media.durationSeconds / SPRITE_MAX_THUMBNAILS);
+  const count = Math.max(1, Math.ceil(media.durationSeconds / interval));
+  const columns = Math.min(SPRITE_COLUMNS, count);
+  const rows = Math.ceil(count / columns);
+  // Even height, keeping the aspect ratio
+  const height = media.width && media.height ? Math.round((THUMBNAIL_WIDTH * media.height) / media.width / 2) * 2 : 90;
+
+  const filter = `fps=1/${interval},scale=${THUMBNAIL_WIDTH}:${height},tile=${columns}x${rows}`;
+  await runFfmpeg(["-y", "-v", "error", "-i", input, "-vf", filter, "-frames:v", "1", "-q:v", "5", output]);
+
+  return { interval, count, columns, rows, width: THUMBNAIL_WIDTH, height };
+}
+
+// Runs after processing: a waveform for every track with audio, and a poster frame
+// and thumbnail sprite for video. Previews are extras, so failing here leaves the
+// recording READY.
+async function generatePreviews(job: Job) {
+  const recording = await prisma.recording.findUnique({ where: { id: job.recordingId } });
+  const sourceKey = recording?.processedKey ?? recording?.storageKey;
+  if (!recording || !sourceKey) {
+    throw new PermanentJobError("The recording has no file to preview");
+  }
+
+  const workDir = await mkdtemp(path.join(tmpdir(), "previews-"));
+  try {
+    const input = path.join(workDir, "source");
+    await getStorage().getFile(sourceKey, input);
+    const media = await probe(input);
+    const data: Prisma.RecordingUpdateManyMutationInput = {};
+
+    if (media.hasAudio) {
+      const file = path.join(workDir, "waveform.json");
+      await writeWaveform(input, file);
+      const key = recordingKey(recording.id, "waveform.json");
+      await storeJobOutput(recording.id, key, file, "application/json");
+      data.waveformKey = key;
+    }
+
+    if (media.hasVideo) {
+      const poster = path.join(workDir, "poster.jpg");
+      await writePoster(input, poster, media);
+      const posterKey = recordingKey(recording.id, "poster.jpg");
+      await storeJobOutput(recording.id, posterKey, poster, "image/jpeg");
+
+      const sprite = path.join(workDir, "sprite.jpg");
+      const spriteLayout = await writeSprite(input, sprite, media);
+      const spriteKey = recordingKey(recording.id, "sprite.jpg");
+      await storeJobOutput(recording.id, spriteKey, sprite, "image/jpeg");
+
+      data.posterKey = posterKey;
+      data.spriteKey = spriteKey;
+      data.spriteLayout = spriteLayout;
+    }
+
+    await prisma.recording.updateMany({ where: { id: recording.id }, data });
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+export const previewsJob: JobHandler = { run: generatePreviews };
+
+export interface RecordingPreviews {
+  waveformUrl: string | null;
+  posterUrl: string | null;
+  sprite: (SpriteLayout & { url: string }) | null;
+  expiresAt: string;
+}
+
+// Signed URLs for whatever previews the recording has
+export async function getPreviewUrls(recording: Recording): Promise<RecordingPreviews> {
+  const storage = getStorage();
+  const expiresIn = signedUrlTtl();
+  const sign = (key: string | null) => (key ? storage.getSignedUrl(key, { expiresIn }) : null);
+
+  const layout = recording.spriteLayout as SpriteLayout | null;
+  const [waveformUrl, posterUrl, spriteUrl] = await Promise.all([
+    sign(recording.waveformKey),
+    sign(recording.posterKey),
+    sign(recording.spriteKey),
+  ]);
+
+  return {
+    waveformUrl,
+    posterUrl,
+    sprite: spriteUrl && layout ? { ...layout, url: spriteUrl } : null,
+    expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+  };
+}
@@ -0,0 +1,122 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import type { Job } from "@prisma/client";
+import prisma from "../db.js";
+import { MediaInfo, probe, runFfmpeg } from "./ffmpeg.js";
+import { HLS_KEYFRAME_INTERVAL } from "./hls.js";
+import { JobHandler, PermanentJobError, enqueueJob, storeJobOutput } from "./jobs.js";
+import { getStorage, recordingKey } from "./storage.js";
+
+// EBU R128-style targets, as used by most podcast platforms
+const LOUDNESS_TARGET = "I=-16:TP=-1.5:LRA=11";
+
+interface LoudnessMeasurement {
+  input_i: string;
+  input_tp: string;
+  input_lra: string;
+  input_thresh: string;
+  target_offset: string;
+}
+
+// First loudnorm pass: measure only. ffmpeg prints the stats as JSON at the end of stderr.
+async function measureLoudness(input: string): Promise<LoudnessMeasurement | null> {
+  const { stderr } = await runFfmpeg([
+    "-hide_banner",
+    "-nostats",
+    "-i",
+    input,
+    "-af",
+    `loudnorm=${LOUDNESS_TARGET}:print_format=json`,
+    "-f",
+    "null",
+    "-",
+  ]);
+
+  const json = stderr.slice(stderr.lastIndexOf("{"), stderr.lastIndexOf("}") + 1);
+  const measured = JSON.parse(json) as LoudnessMeasurement;
+  // Pure silence measures as -inf and can't be normalized
+  return Number.isFinite(Number(measured.input_i)) ? measured : null;
+}
+
+// Second pass: transcode to MP4 (H.264/AAC) or M4A, applying the measured correction
+async function transcode(input: string, output: string, media: MediaInfo, loudness: LoudnessMeasurement | null) {
+  const args = ["-y", "-hide_banner", "-nostats", "-i", input];
+
+  if (media.hasVideo) {
+    args.push("-c:v", "libx264", "-preset", "veryfast", "-crf", "23", "-pix_fmt", "yuv420p");
+    // Regular keyframes, so the HLS packager can cut evenly sized segments
+    args.push("-force_key_frames", `expr:gte(t,n_forced*${HLS_KEYFRAME_INTERVAL})`);
+  } else {
+    args.push("-vn");
+  }
+  if (media.hasAudio) {
+    if (loudness) {
+      const measured = [
+        `measured_I=${loudness.input_i}`,
+        `measured_TP=${loudness.input_tp}`,
+        `measured_LRA=${loudness.input_lra}`,
+        `measured_thresh=${loudness.input_thresh}`,
+        `offset=${loudness.target_offset}`,
+      ].join(":");
+      args.push("-af", `loudnorm=${LOUDNESS_TARGET}:${measured}:linear=true`);
+    }
+    // loudnorm resamples to 192 kHz internally
+    args.push("-ar", "48000", "-c:a", "aac", "-b:a", "192k");
+  }
+
+  args.push("-movflags", "+faststart", output);
+  await runFfmpeg(args);
+}
+
+// Validates, transcodes and loudness-normalizes an uploaded track, then marks it READY
+async function processRecording(job: Job) {
+  const recording = await prisma.recording.findUnique({ where: { id: job.recordingId } });
+  if (!recording?.storageKey) {
+    throw new PermanentJobError("The recording has no uploaded file");
+  }
+
+  const workDir = await mkdtemp(path.join(tmpdir(), "recording-"));
+  try {
+    const input = path.join(workDir, "original");
+    await getStorage().getFile(recording.storageKey, input);
+
+    const media = await probe(input);
+    const loudness = media.hasAudio ? await measureLoudness(input) : null;
+
+    const extension = media.hasVideo ? "mp4" : "m4a";
+    const output = path.join(workDir, `processed.${extension}`);
+    await transcode(input, output, media, loudness);
+
+    const processedKey = recordingKey(recording.id, `processed.${extension}`);
+    await storeJobOutput(recording.id, processedKey, output, media.hasVideo ? "video/mp4" : "audio/mp4");
+
+    await prisma.recording.updateMany({
+      where: { id: recording.id },
+      data: {
+        status: "READY",
+        processedKey,
+        failureReason: null,
+        // Always what ffprobe measured; clients never set the duration
+        duration: Math.max(1, Math.round(media.durationSeconds)),
+      },
+    });
+
+    await enqueueJob(recording.id, "GENERATE_PREVIEWS");
+    await enqueueJob(recording.id, "PACKAGE_HLS");
+    await enqueueJob(recording.id, "TRANSCRIBE", { maxAttempts: 3 });
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+export const processRecordingJob: JobHandler = {
+  run: processRecording,
+
+  async failed(job, reason) {
+    await prisma.recording.updateMany({
+      where: { id: job.recordingId },
+      data: { status: "FAILED", failureReason: reason },
+    });
+  },
+};
@@ -0,0 +1,22 @@
+import type { AppServer } from "../socket/handler.js";
+import type { PresenceStore } from "../socket/presence.js";
+
+export interface Realtime {
+  io: AppServer;
+  presence: PresenceStore;
+}
+
+// REST routes change room state too; they reach connected clients through the
+// socket server and presence store registered here by setupSocketServer.
+let realtime: Realtime | null = null;
+
+export function setRealtime(value: Realtime) {
+  realtime = value;
+}
+
+export function getRealtime(): Realtime {
+  if (!realtime) {
+    throw new Error("Socket server has not been set up");
+  }
+  return realtime;
+}
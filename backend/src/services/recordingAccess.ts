@@ -0,0 +1,108 @@
+import type { Prisma, Recording, RecordingAccess } from "@prisma/client";
+import prisma from "../db.js";
+import { ServiceError } from "./errors.js";
+import { authorizeRoomAction, can, getRoomRole } from "./permissions.js";
+import { publicUserSelect } from "./users.js";
+
+// FULL is the owner, host and co-hosts: everything a grant allows, plus granting
+export type RecordingAccessLevel = RecordingAccess | "FULL";
+
+const RANK: Record<RecordingAccessLevel, number> = { VIEW: 1, DOWNLOAD: 2, FULL: 3 };
+
+async function managesRoomRecordings(roomId: string, userId: string) {
+  const room = await prisma.room.findUnique({ where: { id: roomId }, select: { id: true, hostId: true } });
+  return room !== null && can(await getRoomRole(room, userId), "recording:manage");
+}
+
+export async function getRecordingAccess(recording: Recording, userId: string): Promise<RecordingAccessLevel | null> {
+  if (recording.userId === userId || (await managesRoomRecordings(recording.roomId, userId))) {
+    return "FULL";
+  }
+
+  const grant = await prisma.recordingGrant.findUnique({
+    where: { recordingId_userId: { recordingId: recording.id, userId } },
+  });
+  return grant?.access ?? null;
+}
+
+// Loads the recording and checks the user has at least the given access to it
+export async function authorizeRecording(recordingId: string, userId: string, needed: RecordingAccessLevel) {
+  const recording = await prisma.recording.findUnique({ where: { id: recordingId } });
+  if (!recording) {
+    throw new ServiceError("NOT_FOUND", "Recording not found");
+  }
+
+  const access = await getRecordingAccess(recording, userId);
+  if (!access || RANK[access] < RANK[needed]) {
+    throw new ServiceError(
+      "FORBIDDEN",
+      access ? "You don't have this level of access to the recording" : "You don't have access to this recording"
+    );
+  }
+  return { recording, access };
+}
+
+// The room's recordings the user may see: all of them for the host and co-hosts,
+// otherwise their own and any granted to them
+export async function visibleRoomRecordingsWhere(roomId: string, userId: string): Promise<Prisma.RecordingWhereInput> {
+  if (await managesRoomRecordings(roomId, userId)) {
+    return { roomId };
+  }
+  return { roomId, OR: [{ userId }, { grants: { some: { userId } } }] };
+}
+
+async function authorizeGranting(recordingId: string, actorId: string) {
+  const recording = await prisma.recording.findUnique({ where: { id: recordingId } });
+  if (!recording) {
+    throw new ServiceError("NOT_FOUND", "Recording not found");
+  }
+  await authorizeRoomAction(
+    recording.roomId,
+    actorId,
+    "recording:manage",
+    "Only the host or a co-host can share this recording"
+  );
+  return recording;
+}
+
+const grantInclude = {
+  user: { select: publicUserSelect },
+  grantedBy: { select: publicUserSelect },
+} as const;
+
+export async function listRecordingGrants(recordingId: string, actorId: string) {
+  await authorizeGranting(recordingId, actorId);
+
+  return prisma.recordingGrant.findMany({
+    where: { recordingId },
+    include: grantInclude,
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+export async function grantRecordingAccess(recordingId: string, actorId: string, userId: string, access: RecordingAccess) {
+  const recording = await authorizeGranting(recordingId, actorId);
+
+  if (userId === recording.userId) {
+    throw new ServiceError("CONFLICT", "The owner already has full access");
+  }
+  if (!(await prisma.user.findUnique({ where: { id: userId }, select: { id: true } }))) {
+    throw new ServiceError("NOT_FOUND", "User not found");
+  }
+
+  return prisma.recordingGrant.upsert({
+    where: { recordingId_userId: { recordingId, userId } },
+    update: { access, grantedById: actorId },
+    create: { recordingId, userId, access, grantedById: actorId },
+    include: grantInclude,
+  });
+}
+
+export async function revokeRecordingAccess(recordingId: string, actorId: string, userId: string) {
+  await authorizeGranting(recordingId, actorId);
+
+  const { count } = await prisma.recordingGrant.deleteMany({ where: { recordingId, userId } });
+  if (count === 0) {
+    throw new ServiceError("NOT_FOUND", "That user has no access grant for this recording");
+  }
+}
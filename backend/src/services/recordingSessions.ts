@@ -0,0 +1,125 @@
+import { Prisma, type RecordingSession } from "@prisma/client";
+import prisma from "../db.js";
+import { alignRecording } from "./clockSync.js";
+import { ServiceError } from "./errors.js";
+import { authorizeRoomAction } from "./permissions.js";
+import { getRealtime } from "./realtime.js";
+import { visibleRoomRecordingsWhere } from "./recordingAccess.js";
+import { getUserName, publicUserSelect } from "./users.js";
+import type { RecordingSessionInfo, RecordingStartedPayload } from "../socket/events.js";
+
+function toSessionInfo(session: RecordingSession): RecordingSessionInfo {
+  return {
+    sessionId: session.id,
+    roomId: session.roomId,
+    take: session.take,
+    startedAt: session.startedAt.toISOString(),
+  };
+}
+
+export function findRunningSession(roomId: string) {
+  return prisma.recordingSession.findFirst({ where: { roomId, stoppedAt: null } });
+}
+
+// Starts the next take and tells everyone in the room to start recording their
+// track. A room records one take at a time.
+export async function startRecordingSession(roomId: string, actorId: string): Promise<RecordingSessionInfo> {
+  const { room } = await authorizeRoomAction(
+    roomId,
+    actorId,
+    "recording:manage",
+    "Only the host or a co-host can start recording"
+  );
+  if (!room.isActive) {
+    throw new ServiceError("ROOM_INACTIVE", "Room is not active");
+  }
+  if (await findRunningSession(roomId)) {
+    throw new ServiceError("CONFLICT", "A take is already being recorded");
+  }
+
+  const last = await prisma.recordingSession.findFirst({ where: { roomId }, orderBy: { take: "desc" } });
+  let session: RecordingSession;
+  try {
+    session = await prisma.recordingSession.create({
+      data: { roomId, startedById: actorId, take: (last?.take ?? 0) + 1 },
+    });
+  } catch (error) {
+    // Someone else started a take at the same moment and got this take number
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new ServiceError("CONFLICT", "A take is already being recorded");
+    }
+    throw error;
+  }
+
+  const info = toSessionInfo(session);
+  const announcement: RecordingStartedPayload = { ...info, startedBy: await getUserName(actorId) };
+  getRealtime().io.to(roomId).emit("recording-started", announcement);
+  return info;
+}
+
+async function finishSession(session: RecordingSession, actorId: string) {
+  // Conditional so a take is only ever stopped (and announced) once
+  const stoppedAt = new Date();
+  const { count } = await prisma.recordingSession.updateMany({
+    where: { id: session.id, stoppedAt: null },
+    data: { stoppedAt },
+  });
+  if (count === 0) {
+    return false;
+  }
+
+  // Tracks uploaded before the take ended have only now seen all their clock samples
+  const tracks = await prisma.recording.findMany({ where: { sessionId: session.id, storageKey: { not: null } } });
+  for (const track of tracks) {
+    await alignRecording(track);
+  }
+
+  getRealtime().io.to(session.roomId).emit("recording-stopped", {
+    ...toSessionInfo(session),
+    stoppedAt: stoppedAt.toISOString(),
+    stoppedBy: await getUserName(actorId),
+  });
+  return true;
+}
+
+export async function stopRecordingSession(roomId: string, actorId: string): Promise<RecordingSessionInfo> {
+  await authorizeRoomAction(roomId, actorId, "recording:manage", "Only the host or a co-host can stop recording");
+
+  const session = await findRunningSession(roomId);
+  if (!session || !(await finishSession(session, actorId))) {
+    throw new ServiceError("CONFLICT", "Nothing is being recorded");
+  }
+  return toSessionInfo(session);
+}
+
+// Ending the room ends its take too; the caller has already been authorized
+export async function stopRunningSession(roomId: string, actorId: string) {
+  const session = await findRunningSession(roomId);
+  if (session) {
+    await finishSession(session, actorId);
+  }
+}
+
+// What someone joining mid-take is sent, so their client starts recording straight
+// away against the same session
+export async function getRunningSessionAnnouncement(roomId: string): Promise<RecordingStartedPayload | null> {
+  const session = await findRunningSession(roomId);
+  return session ? { ...toSessionInfo(session), startedBy: await getUserName(session.startedById) } : null;
+}
+
+// Every take in the room with the tracks uploaded against it that the viewer may
+// see, newest first
+export async function listRecordingSessions(roomId: string, viewerId: string) {
+  return prisma.recordingSession.findMany({
+    where: { roomId },
+    include: {
+      startedBy: { select: publicUserSelect },
+      recordings: {
+        where: await visibleRoomRecordingsWhere(roomId, viewerId),
+        include: { user: { select: publicUserSelect } },
+        orderBy: { createdAt: "asc" },
+      },
+    },
+    orderBy: { take: "desc" },
+  });
+}
@@ -0,0 +1,94 @@
+import prisma from "../db.js";
+import { ServiceError } from "./errors.js";
+import { authorizeRoomAction } from "./permissions.js";
+import { getRealtime } from "./realtime.js";
+import { getUserName, publicUserSelect } from "./users.js";
+import type { AssignableRoleName, ParticipantRoleName } from "../socket/events.js";
+
+const participantInclude = {
+  user: { select: publicUserSelect },
+} as const;
+
+async function requireCurrentParticipant(roomId: string, userId: string) {
+  const participant = await prisma.participant.findUnique({
+    where: { userId_roomId: { userId, roomId } },
+  });
+  if (!participant || participant.leftAt) {
+    throw new ServiceError("NOT_IN_ROOM", "That user is not in this room");
+  }
+  return participant;
+}
+
+// Keeps the presence entry (which socket permission checks read) in step with the
+// database and tells the room
+async function announceRoleChange(roomId: string, userId: string, role: ParticipantRoleName, changedBy: string) {
+  const { io, presence } = getRealtime();
+  await presence.update(roomId, userId, { role });
+  io.to(roomId).emit("participant-role-changed", { roomId, userId, role, changedBy });
+}
+
+// Promotes a participant to co-host or demotes them back to guest
+export async function setParticipantRole(roomId: string, actorId: string, targetUserId: string, role: AssignableRoleName) {
+  const { room } = await authorizeRoomAction(
+    roomId,
+    actorId,
+    "participants:set-role",
+    "Only the host can change participant roles"
+  );
+
+  if (targetUserId === room.hostId) {
+    throw new ServiceError("CONFLICT", "The host's role can only change through a host transfer");
+  }
+
+  await requireCurrentParticipant(roomId, targetUserId);
+
+  const participant = await prisma.participant.update({
+    where: { userId_roomId: { userId: targetUserId, roomId } },
+    data: { role },
+    include: participantInclude,
+  });
+
+  await announceRoleChange(roomId, targetUserId, role, await getUserName(actorId));
+  return participant;
+}
+
+// Hands the room to another participant. The previous host stays on as a co-host,
+// so they can still help out or simply leave.
+export async function transferHost(roomId: string, actorId: string, targetUserId: string) {
+  await authorizeRoomAction(roomId, actorId, "room:transfer-host", "Only the host can transfer the room");
+
+  if (targetUserId === actorId) {
+    throw new ServiceError("CONFLICT", "You are already the host");
+  }
+
+  await requireCurrentParticipant(roomId, targetUserId);
+
+  const room = await prisma.$transaction(async (tx) => {
+    // Conditional on the caller still being the host, so two concurrent transfers can't both win
+    const { count } = await tx.room.updateMany({
+      where: { id: roomId, hostId: actorId },
+      data: { hostId: targetUserId },
+    });
+    if (count === 0) {
+      throw new ServiceError("CONFLICT", "The room has already changed hands");
+    }
+
+    await tx.participant.update({
+      where: { userId_roomId: { userId: targetUserId, roomId } },
+      data: { role: "HOST" },
+    });
+    await tx.participant.updateMany({
+      where: { userId: actorId, roomId },
+      data: { role: "CO_HOST" },
+    });
+
+    return tx.room.findUniqueOrThrow({ where: { id: roomId } });
+  });
+
+  const changedBy = await getUserName(actorId);
+  await announceRoleChange(roomId, targetUserId, "HOST", changedBy);
+  await announceRoleChange(roomId, actorId, "CO_HOST", changedBy);
+  getRealtime().io.to(roomId).emit("host-changed", { roomId, hostId: targetUserId, previousHostId: actorId, changedBy });
+
+  return room;
+}
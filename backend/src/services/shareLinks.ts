@@ -0,0 +1,269 @@
+import { randomBytes } from "crypto";
+import path from "path";
+import bcrypt from "bcrypt";
+import type { Prisma, Recording, ShareLink } from "@prisma/client";
+import prisma from "../db.js";
+import { ServiceError } from "./errors.js";
+import { authorizeRoomAction } from "./permissions.js";
+import { getPlaybackUrls, playbackUrlTtl } from "./playback.js";
+import { authorizeRecording } from "./recordingAccess.js";
+import { getStorage, signedUrlTtl } from "./storage.js";
+import { publicUserSelect } from "./users.js";
+
+// 32 random bytes: the token is the only thing standing between the link and the media
+const TOKEN_BYTES = 32;
+
+// Against online password guessing, counted from the access log over a sliding
+// window: a few wrong passwords per visitor address, and a cap for the whole link so
+// spreading the guesses over many addresses doesn't help either
+const PASSWORD_WINDOW_SECONDS = 15 * 60;
+const MAX_WRONG_PASSWORDS_PER_ADDRESS = 5;
+const MAX_WRONG_PASSWORDS_PER_LINK = 50;
+
+// What a link points at: one recording, or every track in a room
+export type ShareTarget = { recordingId: string; roomId?: undefined } | { roomId: string; recordingId?: undefined };
+
+export interface CreateShareLinkOptions {
+  password?: string;
+  allowDownload: boolean;
+  expiresAt?: Date;
+}
+
+// Who opened the link, for the access log
+export interface ShareLinkVisitor {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Sharing outside the app is for the people who control the recordings: the owner
+// of a single track, or the room's host and co-hosts
+async function authorizeSharing(target: ShareTarget, actorId: string) {
+  if (target.roomId === undefined) {
+    await authorizeRecording(target.recordingId, actorId, "FULL");
+  } else {
+    await authorizeRoomAction(
+      target.roomId,
+      actorId,
+      "recording:manage",
+      "Only the host or a co-host can share the room's recordings"
+    );
+  }
+}
+
+const shareLinkSelect = {
+  id: true,
+  token: true,
+  passwordHash: true,
+  allowDownload: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+  recordingId: true,
+  roomId: true,
+  createdBy: { select: publicUserSelect },
+  _count: { select: { accesses: true } },
+} as const;
+
+// The password hash never leaves the server; callers only learn whether there is one
+function present({ passwordHash, ...link }: Prisma.ShareLinkGetPayload<{ select: typeof shareLinkSelect }>) {
+  return { ...link, hasPassword: passwordHash !== null };
+}
+
+export async function createShareLink(target: ShareTarget, actorId: string, options: CreateShareLinkOptions) {
+  await authorizeSharing(target, actorId);
+
+  const link = await prisma.shareLink.create({
+    data: {
+      ...target,
+      token: randomBytes(TOKEN_BYTES).toString("base64url"),
+      passwordHash: options.password ? await bcrypt.hash(options.password, 10) : null,
+      allowDownload: options.allowDownload,
+      expiresAt: options.expiresAt,
+      createdById: actorId,
+    },
+    select: shareLinkSelect,
+  });
+  return present(link);
+}
+
+export async function listShareLinks(target: ShareTarget, actorId: string) {
+  await authorizeSharing(target, actorId);
+
+  const links = await prisma.shareLink.findMany({
+    where: target,
+    select: shareLinkSelect,
+    orderBy: { createdAt: "desc" },
+  });
+  return links.map(present);
+}
+
+async function authorizeLinkManagement(linkId: string, actorId: string) {
+  const link = await prisma.shareLink.findUnique({ where: { id: linkId } });
+  if (!link) {
+    throw new ServiceError("NOT_FOUND", "Share link not found");
+  }
+  await authorizeSharing(
+    link.recordingId ? { recordingId: link.recordingId } : { roomId: link.roomId! },
+    actorId
+  );
+  return link;
+}
+
+export async function revokeShareLink(linkId: string, actorId: string) {
+  await authorizeLinkManagement(linkId, actorId);
+
+  const { count } = await prisma.shareLink.updateMany({
+    where: { id: linkId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (count === 0) {
+    throw new ServiceError("CONFLICT", "The link has already been revoked");
+  }
+}
+
+// Newest first
+export async function listShareLinkAccesses(linkId: string, actorId: string) {
+  await authorizeLinkManagement(linkId, actorId);
+
+  return prisma.shareLinkAccess.findMany({
+    where: { shareLinkId: linkId },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+// A link that exists, hasn't been revoked and hasn't expired
+async function findUsableLink(token: string) {
+  const link = await prisma.shareLink.findUnique({
+    where: { token },
+    include: { recording: true, room: { select: { id: true, title: true } } },
+  });
+  if (!link) {
+    throw new ServiceError("NOT_FOUND", "Share link not found");
+  }
+  if (link.revokedAt) {
+    throw new ServiceError("FORBIDDEN", "This link has been revoked");
+  }
+  if (link.expiresAt && link.expiresAt <= new Date()) {
+    throw new ServiceError("FORBIDDEN", "This link has expired");
+  }
+  return link;
+}
+
+// What a visitor sees before entering a password: nothing about the recordings
+// themselves until they are through
+export async function describeShareLink(token: string) {
+  const link = await findUsableLink(token);
+  return {
+    kind: link.recordingId ? ("recording" as const) : ("room" as const),
+    requiresPassword: link.passwordHash !== null,
+    allowDownload: link.allowDownload,
+    expiresAt: link.expiresAt,
+  };
+}
+
+function logAccess(link: ShareLink, outcome: "STREAM" | "DOWNLOAD" | "WRONG_PASSWORD", visitor: ShareLinkVisitor) {
+  return prisma.shareLinkAccess.create({
+    data: { shareLinkId: link.id, outcome, ipAddress: visitor.ipAddress, userAgent: visitor.userAgent?.slice(0, 512) },
+  });
+}
+
+type SharedRecording = Recording & { user: { name: string } };
+
+// Downloads get a signed URL for the processed file once there is one (the upload
+// until then), as an attachment named after the original file. Streams never get
+// the stored object: they get playback URLs signed for this link, progressive and
+// HLS, which stop working once the link is revoked or expires.
+async function signMediaUrl(recording: SharedRecording, linkId: string, download: boolean, expiresIn: number) {
+  const details = {
+    id: recording.id,
+    fileName: recording.fileName,
+    mimeType: recording.mimeType,
+    duration: recording.duration,
+    speakerName: recording.user.name,
+  };
+
+  if (!download) {
+    const { streamUrl, hlsUrl } = getPlaybackUrls(recording, expiresIn, linkId);
+    return { ...details, url: streamUrl, hlsUrl };
+  }
+
+  const key = recording.processedKey ?? recording.storageKey!;
+  const downloadName = `${path.parse(recording.fileName).name}${path.extname(key)}`;
+  return { ...details, url: await getStorage().getSignedUrl(key, { expiresIn, downloadName }), hlsUrl: null };
+}
+
+export type ShareLinkResolution =
+  | { status: "password-required" }
+  | { status: "wrong-password" }
+  | { status: "too-many-attempts"; retryAfterSeconds: number }
+  | { status: "ok"; data: Awaited<ReturnType<typeof resolveMedia>> };
+
+async function resolveMedia(link: Awaited<ReturnType<typeof findUsableLink>>, download: boolean) {
+  const recordings: SharedRecording[] = await prisma.recording.findMany({
+    where: link.recordingId ? { id: link.recordingId } : { roomId: link.roomId!, storageKey: { not: null } },
+    include: { user: { select: { name: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+  if (link.recordingId && !recordings[0]?.storageKey) {
+    throw new ServiceError("CONFLICT", "The recording has not finished uploading");
+  }
+
+  // No URL outlives the link
+  const linkSecondsLeft = link.expiresAt ? Math.floor((link.expiresAt.getTime() - Date.now()) / 1000) : Infinity;
+  if (linkSecondsLeft <= 0) {
+    throw new ServiceError("FORBIDDEN", "This link has expired");
+  }
+  const expiresIn = Math.min(download ? signedUrlTtl() : playbackUrlTtl(), linkSecondsLeft);
+  return {
+    title: link.recording?.fileName ?? link.room?.title ?? null,
+    allowDownload: link.allowDownload,
+    recordings: await Promise.all(
+      recordings.map((recording) => signMediaUrl(recording, link.id, download, expiresIn))
+    ),
+    expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+  };
+}
+
+async function tooManyWrongPasswords(link: ShareLink, visitor: ShareLinkVisitor) {
+  const where = {
+    shareLinkId: link.id,
+    outcome: "WRONG_PASSWORD" as const,
+    createdAt: { gte: new Date(Date.now() - PASSWORD_WINDOW_SECONDS * 1000) },
+  };
+  const [fromAddress, total] = await Promise.all([
+    visitor.ipAddress ? prisma.shareLinkAccess.count({ where: { ...where, ipAddress: visitor.ipAddress } }) : 0,
+    prisma.shareLinkAccess.count({ where }),
+  ]);
+  return fromAddress >= MAX_WRONG_PASSWORDS_PER_ADDRESS || total >= MAX_WRONG_PASSWORDS_PER_LINK;
+}
+
+// Turns a token (and password, if the link has one) into short-lived signed media
+// URLs. Every successful open and every wrong password lands in the access log, and
+// too many wrong passwords stop any password being checked for a while.
+export async function resolveShareLink(
+  token: string,
+  options: { password?: string; download: boolean },
+  visitor: ShareLinkVisitor
+): Promise<ShareLinkResolution> {
+  const link = await findUsableLink(token);
+
+  if (link.passwordHash) {
+    if (!options.password) {
+      return { status: "password-required" };
+    }
+    if (await tooManyWrongPasswords(link, visitor)) {
+      return { status: "too-many-attempts", retryAfterSeconds: PASSWORD_WINDOW_SECONDS };
+    }
+    if (!(await bcrypt.compare(options.password, link.passwordHash))) {
+      await logAccess(link, "WRONG_PASSWORD", visitor);
+      return { status: "wrong-password" };
+    }
+  }
+  if (options.download && !link.allowDownload) {
+    throw new ServiceError("FORBIDDEN", "This link is for streaming only");
+  }
+
+  const data = await resolveMedia(link, options.download);
+  await logAccess(link, options.download ? "DOWNLOAD" : "STREAM", visitor);
+  return { status: "ok", data };
+}
@@ -0,0 +1,92 @@
+import { execFile } from "child_process";
+import { readFile } from "fs/promises";
+import { promisify } from "util";
+
+const exec = promisify(execFile);
+
+// Read at call time rather than import time, after dotenv has run
+const sttTimeoutMs = () => Number(process.env.STT_TIMEOUT_MS ?? 60 * 60 * 1000);
+
+// Times are seconds from the start of the audio
+export type TranscribedWord = {
+  start: number;
+  end: number;
+  text: string;
+};
+
+export interface SpeechToTextResult {
+  language: string | null;
+  words: TranscribedWord[];
+}
+
+// A speech-to-text backend. Engines are handed 16 kHz mono 16-bit WAV, the input
+// nearly every engine expects, and return word-level timings.
+export interface SpeechToTextEngine {
+  name: string;
+  transcribe(wavPath: string): Promise<SpeechToTextResult>;
+}
+
+export interface WhisperCppConfig {
+  binary: string;
+  model: string;
+  // ISO 639-1 code, or "auto" to detect
+  language: string;
+  threads?: number;
+}
+
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription?: { offsets: { from: number; to: number }; text: string }[];
+}
+
+// Non-speech annotations such as "[BLANK_AUDIO]" or "(music)"
+const NON_SPEECH = /^[[(].*[\])]$/;
+
+// whisper.cpp's CLI, run locally against a ggml model file: fully offline. With
+// --max-len 1 and --split-on-word every output segment is a single word, which is
+// how it gives word-level timestamps.
+export function createWhisperCppEngine(config: WhisperCppConfig): SpeechToTextEngine {
+  return {
+    name: "whisper-cpp",
+
+    async transcribe(wavPath) {
+      // Writes <wavPath>.json next to the input
+      const args = ["-m", config.model, "-f", wavPath, "-l", config.language, "-oj", "-of", wavPath, "-np"];
+      args.push("-ml", "1", "-sow");
+      if (config.threads) {
+        args.push("-t", String(config.threads));
+      }
+      await exec(config.binary, args, { timeout: sttTimeoutMs(), maxBuffer: 64 * 1024 * 1024 });
+
+      const output = JSON.parse(await readFile(`${wavPath}.json`, "utf8")) as WhisperCppOutput;
+      const words = (output.transcription ?? [])
+        .map(({ offsets, text }) => ({ start: offsets.from / 1000, end: offsets.to / 1000, text: text.trim() }))
+        .filter((word) => word.text && !NON_SPEECH.test(word.text));
+
+      return { language: output.result?.language ?? null, words };
+    },
+  };
+}
+
+let engine: SpeechToTextEngine | null = null;
+
+// STT_ENGINE picks the engine; "whisper-cpp" (the default) is the only one built in.
+// Further engines implement SpeechToTextEngine and get a case here.
+export function getSpeechToTextEngine(): SpeechToTextEngine {
+  if (engine) return engine;
+
+  const name = process.env.STT_ENGINE ?? "whisper-cpp";
+  switch (name) {
+    case "whisper-cpp":
+      engine = createWhisperCppEngine({
+        binary: process.env.WHISPER_CPP_PATH ?? "whisper-cli",
+        model: process.env.WHISPER_MODEL ?? "models/ggml-base.bin",
+        language: process.env.WHISPER_LANGUAGE ?? "auto",
+        threads: process.env.WHISPER_THREADS ? Number(process.env.WHISPER_THREADS) : undefined,
+      });
+      break;
+    default:
+      throw new Error(`Unknown STT_ENGINE: ${name}`);
+  }
+  return engine;
+}
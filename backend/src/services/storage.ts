@@ -0,0 +1,250 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { copyFile, mkdir, rename, rm, stat } from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+export interface SignedUrlOptions {
+  // Seconds until the URL stops working
+  expiresIn: number;
+  // Served as an attachment with this file name instead of inline
+  downloadName?: string;
+}
+
+// Inclusive, like an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Where recording bytes live. Keys are slash-separated paths such as
+// "recordings/<id>/original"; everything for one recording shares its prefix.
+export interface StorageDriver {
+  // Moves a local file into storage. The local file is gone afterwards.
+  putFile(key: string, filePath: string, contentType?: string | null): Promise<void>;
+  // Copies a stored object to a local file, e.g. for processing
+  getFile(key: string, filePath: string): Promise<void>;
+  // Size in bytes of a stored object, or null if there is none
+  getSize(key: string): Promise<number | null>;
+  // Streams a stored object, or just the given range of it, e.g. for media playback
+  createReadStream(key: string, range?: ByteRange): Promise<Readable>;
+  getSignedUrl(key: string, options: SignedUrlOptions): Promise<string>;
+  deletePrefix(prefix: string): Promise<void>;
+}
+
+export const recordingPrefix = (recordingId: string) => `recordings/${recordingId}/`;
+export const recordingKey = (recordingId: string, name: string) => `${recordingPrefix(recordingId)}${name}`;
+
+// Default lifetime of download URLs handed to clients
+export const signedUrlTtl = () => Number(process.env.STORAGE_URL_TTL ?? 900);
+
+// Signs local file URLs and playback URLs
+export const signingSecret = () =>
+  process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || "your-secret-key-change-in-production";
+
+function signLocalUrl(key: string, expires: number, downloadName: string) {
+  return createHmac("sha256", signingSecret()).update(`${key}\n${expires}\n${downloadName}`).digest("base64url");
+}
+
+// Local disk, for development. Signed URLs point at /api/files, which checks the
+// signature and serves the file itself.
+export function createLocalStorage(root: string): StorageDriver & {
+  resolve(key: string): string;
+  verify(key: string, expires: number, downloadName: string, signature: string): boolean;
+} {
+  const resolve = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Storage key escapes the storage root: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    resolve,
+
+    async putFile(key, filePath) {
+      const target = resolve(key);
+      await mkdir(path.dirname(target), { recursive: true });
+      try {
+        await rename(filePath, target);
+      } catch (error) {
+        // Different filesystem: fall back to copying
+        if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error;
+        await copyFile(filePath, target);
+        await rm(filePath, { force: true });
+      }
+    },
+
+    async getFile(key, filePath) {
+      await copyFile(resolve(key), filePath);
+    },
+
+    async getSize(key) {
+      try {
+        return (await stat(resolve(key))).size;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+
+    async createReadStream(key, range) {
+      return createReadStream(resolve(key), range);
+    },
+
+    async getSignedUrl(key, { expiresIn, downloadName = "" }) {
+      const expires = Math.floor(Date.now() / 1000) + expiresIn;
+      const query = new URLSearchParams({ expires: String(expires), signature: signLocalUrl(key, expires, downloadName) });
+      if (downloadName) query.set("name", downloadName);
+
+      const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+      return `${process.env.PUBLIC_URL ?? ""}/api/files/${encodedKey}?${query}`;
+    },
+
+    async deletePrefix(prefix) {
+      await rm(resolve(prefix), { recursive: true, force: true });
+    },
+
+    verify(key, expires, downloadName, signature) {
+      if (!Number.isFinite(expires) || expires < Date.now() / 1000) {
+        return false;
+      }
+      const expected = Buffer.from(signLocalUrl(key, expires, downloadName));
+      const actual = Buffer.from(signature);
+      return expected.length === actual.length && timingSafeEqual(expected, actual);
+    },
+  };
+}
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  // Custom endpoint for S3-compatible services such as MinIO
+  endpoint?: string;
+  forcePathStyle: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+export function createS3Storage(config: S3StorageConfig): StorageDriver {
+  const client = new S3Client({
+    region: config.region,
+    endpoint: config.endpoint,
+    forcePathStyle: config.forcePathStyle,
+    credentials:
+      config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+  });
+  const Bucket = config.bucket;
+
+  return {
+    async putFile(key, filePath, contentType) {
+      const { size } = await stat(filePath);
+      await client.send(
+        new PutObjectCommand({
+          Bucket,
+          Key: key,
+          Body: createReadStream(filePath),
+          ContentLength: size,
+          ContentType: contentType ?? undefined,
+        })
+      );
+      await rm(filePath, { force: true });
+    },
+
+    async getFile(key, filePath) {
+      const { Body } = await client.send(new GetObjectCommand({ Bucket, Key: key }));
+      if (!Body) {
+        throw new Error(`Storage object has no body: ${key}`);
+      }
+      await pipeline(Body as Readable, createWriteStream(filePath));
+    },
+
+    async getSize(key) {
+      try {
+        const { ContentLength } = await client.send(new HeadObjectCommand({ Bucket, Key: key }));
+        return ContentLength ?? 0;
+      } catch (error) {
+        if ((error as { name?: string }).name === "NotFound") return null;
+        throw error;
+      }
+    },
+
+    async createReadStream(key, range) {
+      const { Body } = await client.send(
+        new GetObjectCommand({ Bucket, Key: key, Range: range ? `bytes=${range.start}-${range.end}` : undefined })
+      );
+      if (!Body) {
+        throw new Error(`Storage object has no body: ${key}`);
+      }
+      return Body as Readable;
+    },
+
+    async getSignedUrl(key, { expiresIn, downloadName }) {
+      const command = new GetObjectCommand({
+        Bucket,
+        Key: key,
+        ResponseContentDisposition: downloadName
+          ? `attachment; filename="${downloadName.replace(/"/g, "")}"`
+          : undefined,
+      });
+      return getSignedUrl(client, command, { expiresIn });
+    },
+
+    async deletePrefix(prefix) {
+      let ContinuationToken: string | undefined;
+      do {
+        const page = await client.send(new ListObjectsV2Command({ Bucket, Prefix: prefix, ContinuationToken }));
+        const objects = (page.Contents ?? []).map(({ Key }) => ({ Key }));
+        if (objects.length > 0) {
+          await client.send(new DeleteObjectsCommand({ Bucket, Delete: { Objects: objects, Quiet: true } }));
+        }
+        ContinuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+      } while (ContinuationToken);
+    },
+  };
+}
+
+let storage: StorageDriver | null = null;
+let localStorage: ReturnType<typeof createLocalStorage> | null = null;
+
+// STORAGE_DRIVER picks the backend: "local" (default) or "s3"
+export function getStorage(): StorageDriver {
+  if (storage) return storage;
+
+  if (process.env.STORAGE_DRIVER === "s3") {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("S3_BUCKET must be set when STORAGE_DRIVER=s3");
+    }
+    storage = createS3Storage({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION ?? "us-east-1",
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    });
+  } else {
+    localStorage = createLocalStorage(path.resolve(process.env.STORAGE_DIR ?? "storage"));
+    storage = localStorage;
+  }
+  return storage;
+}
+
+// The local driver, when it is the one in use (the /api/files route serves its URLs)
+export function getLocalStorage() {
+  getStorage();
+  return localStorage;
+}
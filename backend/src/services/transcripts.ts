@@ -0,0 +1,215 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import type { Job, Prisma, Recording, RecordingSession } from "@prisma/client";
+import prisma from "../db.js";
+import { probe, runFfmpeg } from "./ffmpeg.js";
+import { JobHandler, PermanentJobError } from "./jobs.js";
+import { visibleRoomRecordingsWhere } from "./recordingAccess.js";
+import { TranscribedWord, getSpeechToTextEngine } from "./speechToText.js";
+import { getStorage } from "./storage.js";
+import { publicUserSelect } from "./users.js";
+
+// Words are grouped into caption-sized segments: a new one starts after a sentence
+// ends, at a pause, or once the current one gets too long to read
+const SEGMENT_MAX_SECONDS = 6;
+const SEGMENT_MAX_CHARS = 84;
+const SEGMENT_PAUSE_SECONDS = 1;
+
+export type TranscriptFormat = "json" | "vtt" | "srt" | "txt";
+
+export type TranscriptSegment = {
+  start: number;
+  end: number;
+  text: string;
+  words: TranscribedWord[];
+};
+
+export type SpeakerSegment = TranscriptSegment & {
+  recordingId: string;
+  speakerId: string;
+  speakerName: string;
+};
+
+function groupIntoSegments(words: TranscribedWord[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let current: TranscribedWord[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    segments.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      text: current.map((word) => word.text).join(" "),
+      words: current,
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    const previous = current[current.length - 1];
+    if (previous) {
+      const length = current.reduce((sum, w) => sum + w.text.length + 1, word.text.length);
+      if (
+        /[.?!]$/.test(previous.text) ||
+        word.start - previous.end >= SEGMENT_PAUSE_SECONDS ||
+        word.end - current[0].start > SEGMENT_MAX_SECONDS ||
+        length > SEGMENT_MAX_CHARS
+      ) {
+        flush();
+      }
+    }
+    current.push(word);
+  }
+  flush();
+
+  return segments;
+}
+
+async function transcribeRecording(job: Job) {
+  const recording = await prisma.recording.findUnique({ where: { id: job.recordingId } });
+  const sourceKey = recording?.processedKey ?? recording?.storageKey;
+  if (!recording || !sourceKey) {
+    throw new PermanentJobError("The recording has no file to transcribe");
+  }
+
+  const workDir = await mkdtemp(path.join(tmpdir(), "transcript-"));
+  try {
+    const input = path.join(workDir, "source");
+    await getStorage().getFile(sourceKey, input);
+    if (!(await probe(input)).hasAudio) {
+      throw new PermanentJobError("The recording has no audio to transcribe");
+    }
+
+    const wav = path.join(workDir, "audio.wav");
+    await runFfmpeg(["-y", "-v", "error", "-i", input, "-vn", "-ac", "1", "-ar", "16000", "-c:a", "pcm_s16le", wav]);
+
+    const engine = getSpeechToTextEngine();
+    const result = await engine.transcribe(wav);
+    const segments = groupIntoSegments(result.words);
+
+    const data = {
+      engine: engine.name,
+      language: result.language,
+      text: segments.map((segment) => segment.text).join("\n"),
+      segments,
+      speakerId: recording.userId,
+    };
+    await prisma.transcript.upsert({
+      where: { recordingId: recording.id },
+      update: data,
+      create: { ...data, recordingId: recording.id },
+    });
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+// A failed transcription leaves the recording itself READY; the failed job shows
+// up in the recording's status
+export const transcriptionJob: JobHandler = { run: transcribeRecording };
+
+const transcriptInclude = {
+  transcript: true,
+  user: { select: publicUserSelect },
+  session: true,
+} as const;
+
+type TranscribedRecording = Recording & {
+  transcript: { segments: Prisma.JsonValue } | null;
+  user: { id: string; name: string };
+  session: RecordingSession | null;
+};
+
+function toSpeakerSegments(recording: TranscribedRecording, shiftSeconds = 0): SpeakerSegment[] {
+  const segments = (recording.transcript?.segments ?? []) as TranscriptSegment[];
+  const shift = (word: TranscribedWord) => ({ ...word, start: word.start + shiftSeconds, end: word.end + shiftSeconds });
+
+  return segments.map((segment) => ({
+    ...shift(segment),
+    words: segment.words.map(shift),
+    recordingId: recording.id,
+    speakerId: recording.user.id,
+    speakerName: recording.user.name,
+  }));
+}
+
+export async function getRecordingTranscript(recordingId: string) {
+  const recording = await prisma.recording.findUnique({ where: { id: recordingId }, include: transcriptInclude });
+  if (!recording?.transcript) {
+    return null;
+  }
+  return { recording, segments: toSpeakerSegments(recording) };
+}
+
+// Where the track starts on the server's clock. Best is the client's own start time
+// corrected by its measured clock offset; failing that, the take's start.
+function trackStartMs(recording: TranscribedRecording) {
+  if (recording.startedAt) {
+    return recording.startedAt.getTime() - (recording.clockOffsetMs ?? 0);
+  }
+  return (recording.session?.startedAt ?? recording.createdAt).getTime();
+}
+
+// Every transcribed track in the room (or one take) that the viewer may see, on a
+// single timeline in speaking order. Times are seconds from the earliest track's start.
+export async function getRoomTranscript(roomId: string, viewerId: string, sessionId?: string) {
+  const visible = await visibleRoomRecordingsWhere(roomId, viewerId);
+  const recordings = await prisma.recording.findMany({
+    where: { AND: [visible, { sessionId, transcript: { isNot: null } }] },
+    include: transcriptInclude,
+  });
+  if (recordings.length === 0) {
+    return [];
+  }
+
+  const zero = Math.min(...recordings.map(trackStartMs));
+  return recordings
+    .flatMap((recording) => toSpeakerSegments(recording, (trackStartMs(recording) - zero) / 1000))
+    .sort((a, b) => a.start - b.start);
+}
+
+function timestamp(seconds: number, separator: "." | ",") {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, width = 2) => String(value).padStart(width, "0");
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor(ms / 60_000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+const escapeVtt = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+export function toWebVtt(segments: SpeakerSegment[]) {
+  const cues = segments.map(
+    (segment, i) =>
+      `${i + 1}\n${timestamp(segment.start, ".")} --> ${timestamp(segment.end, ".")}\n` +
+      `<v ${escapeVtt(segment.speakerName)}>${escapeVtt(segment.text)}`
+  );
+  return ["WEBVTT", ...cues].join("\n\n") + "\n";
+}
+
+export function toSrt(segments: SpeakerSegment[]) {
+  return segments
+    .map(
+      (segment, i) =>
+        `${i + 1}\n${timestamp(segment.start, ",")} --> ${timestamp(segment.end, ",")}\n` +
+        `${segment.speakerName}: ${segment.text}\n`
+    )
+    .join("\n");
+}
+
+// Consecutive segments from the same speaker run together into one paragraph
+export function toPlainText(segments: SpeakerSegment[]) {
+  const paragraphs: string[] = [];
+  let speakerId: string | null = null;
+
+  for (const segment of segments) {
+    if (segment.speakerId === speakerId) {
+      paragraphs[paragraphs.length - 1] += ` ${segment.text}`;
+    } else {
+      paragraphs.push(`[${timestamp(segment.start, ".").slice(0, 8)}] ${segment.speakerName}: ${segment.text}`);
+      speakerId = segment.speakerId;
+    }
+  }
+  return paragraphs.join("\n\n") + "\n";
+}
@@ -0,0 +1,44 @@
+import crypto from "crypto";
+import type { IceServer, IceServerConfig } from "../socket/events.js";
+
+const DEFAULT_STUN_URLS = "stun:stun.l.google.com:19302";
+const DEFAULT_CREDENTIAL_TTL = 3600; // seconds
+
+function parseUrls(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter((url) => url.length > 0);
+}
+
+// Short-lived TURN credentials using the coturn REST API scheme
+// (use-auth-secret / static-auth-secret): the username carries the expiry
+// timestamp and the password is base64(HMAC-SHA1(secret, username)).
+export function createTurnCredentials(userId: string, secret: string, ttl: number, now = Date.now()) {
+  const expiresAt = Math.floor(now / 1000) + ttl;
+  const username = `${expiresAt}:${userId}`;
+  const credential = crypto.createHmac("sha1", secret).update(username).digest("base64");
+  return { username, credential, expiresAt: new Date(expiresAt * 1000) };
+}
+
+export function getIceServerConfig(userId: string): IceServerConfig {
+  const stunUrls = parseUrls(process.env.STUN_URLS ?? DEFAULT_STUN_URLS);
+  const turnUrls = parseUrls(process.env.TURN_URLS);
+  const secret = process.env.TURN_SECRET;
+  const ttl = Number(process.env.TURN_CREDENTIAL_TTL) || DEFAULT_CREDENTIAL_TTL;
+
+  const iceServers: IceServer[] = [];
+  if (stunUrls.length > 0) {
+    iceServers.push({ urls: stunUrls });
+  }
+
+  // Without a shared secret there is nothing to sign, so only STUN is offered
+  if (turnUrls.length === 0 || !secret) {
+    return { iceServers, ttl, expiresAt: null };
+  }
+
+  const { username, credential, expiresAt } = createTurnCredentials(userId, secret, ttl);
+  iceServers.push({ urls: turnUrls, username, credential });
+
+  return { iceServers, ttl, expiresAt: expiresAt.toISOString() };
+}
@@ -0,0 +1,192 @@
+import { createHash, randomUUID } from "crypto";
+import { mkdir, open, readFile, rename, rm, writeFile } from "fs/promises";
+import path from "path";
+import { Prisma, type Recording } from "@prisma/client";
+import prisma from "../db.js";
+import { alignRecording } from "./clockSync.js";
+import { ServiceError } from "./errors.js";
+import { enqueueJob } from "./jobs.js";
+import { getStorage, recordingKey } from "./storage.js";
+
+export const MAX_CHUNK_BYTES = 16 * 1024 * 1024;
+
+// Read at call time rather than import time, after dotenv has run
+const uploadRoot = () => path.resolve(process.env.UPLOAD_DIR ?? "uploads");
+const chunkDir = (recordingId: string) => path.join(uploadRoot(), "chunks", recordingId);
+const chunkPath = (recordingId: string, sequence: number) => path.join(chunkDir(recordingId), `${sequence}.part`);
+
+const assemblyPath = (recordingId: string) => path.join(uploadRoot(), "assembled", recordingId);
+
+const sha256 = (data: Buffer) => createHash("sha256").update(data).digest("hex");
+
+function requireUploading(recording: Recording) {
+  if (recording.status !== "UPLOADING") {
+    throw new ServiceError("CONFLICT", "This recording is no longer accepting uploads");
+  }
+}
+
+// Stores one chunk. Re-sending a chunk the server already has is a no-op, so
+// clients can retry blindly after a timeout.
+export async function storeChunk(recording: Recording, sequence: number, data: Buffer, checksum: string) {
+  requireUploading(recording);
+
+  checksum = checksum.toLowerCase();
+  if (sha256(data) !== checksum) {
+    throw new ServiceError("INVALID_PAYLOAD", "Chunk checksum does not match its contents");
+  }
+
+  const where = { recordingId_sequence: { recordingId: recording.id, sequence } };
+  const sameChunk = async () => {
+    const existing = await prisma.recordingChunk.findUniqueOrThrow({ where });
+    if (existing.checksum !== checksum) {
+      throw new ServiceError("CONFLICT", `A different chunk ${sequence} has already been received`);
+    }
+    return existing;
+  };
+
+  if (await prisma.recordingChunk.findUnique({ where })) {
+    return sameChunk();
+  }
+
+  // Bytes go to a private temp file first so two racing uploads of the same
+  // sequence number can't interleave; the row insert decides which one wins.
+  await mkdir(chunkDir(recording.id), { recursive: true });
+  const tempPath = `${chunkPath(recording.id, sequence)}.${randomUUID()}.tmp`;
+  await writeFile(tempPath, data);
+
+  try {
+    const chunk = await prisma.recordingChunk.create({
+      data: { recordingId: recording.id, sequence, size: data.length, checksum },
+    });
+    await rename(tempPath, chunkPath(recording.id, sequence));
+    return chunk;
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return sameChunk();
+    }
+    throw error;
+  }
+}
+
+// Drops any chunks still waiting to be assembled (the recording is being deleted)
+export async function discardUpload(recordingId: string) {
+  await rm(chunkDir(recordingId), { recursive: true, force: true });
+}
+
+// What an interrupted client needs to resume: everything received so far and
+// the first sequence number still missing
+export async function getUploadState(recording: Recording) {
+  const chunks = await prisma.recordingChunk.findMany({
+    where: { recordingId: recording.id },
+    select: { sequence: true, size: true, checksum: true },
+    orderBy: { sequence: "asc" },
+  });
+
+  let nextSequence = 0;
+  while (nextSequence < chunks.length && chunks[nextSequence].sequence === nextSequence) {
+    nextSequence++;
+  }
+
+  return {
+    status: recording.status,
+    chunks,
+    receivedBytes: chunks.reduce((sum, chunk) => sum + chunk.size, 0),
+    nextSequence,
+  };
+}
+
+// Assembles chunks 0..totalChunks-1 into the final file, moves it to storage and
+// hands the recording on to processing. Each chunk is re-verified on the way.
+export async function finalizeUpload(
+  recording: Recording,
+  { totalChunks, checksum }: { totalChunks: number; checksum?: string }
+) {
+  requireUploading(recording);
+
+  const chunks = await prisma.recordingChunk.findMany({
+    where: { recordingId: recording.id },
+    orderBy: { sequence: "asc" },
+  });
+  const received = new Set(chunks.map((chunk) => chunk.sequence));
+
+  const missing: number[] = [];
+  for (let sequence = 0; sequence < totalChunks && missing.length < 20; sequence++) {
+    if (!received.has(sequence)) missing.push(sequence);
+  }
+  if (missing.length > 0) {
+    throw new ServiceError("CONFLICT", `Missing chunks: ${missing.join(", ")}`);
+  }
+  if (chunks.length > totalChunks) {
+    throw new ServiceError("INVALID_PAYLOAD", `Received ${chunks.length} chunks, more than the ${totalChunks} declared`);
+  }
+
+  // Claim the upload so a second finalize request can't assemble it concurrently
+  const { count } = await prisma.recording.updateMany({
+    where: { id: recording.id, status: "UPLOADING" },
+    data: { status: "PROCESSING" },
+  });
+  if (count === 0) {
+    throw new ServiceError("CONFLICT", "This upload has already been finalized");
+  }
+
+  const key = recordingKey(recording.id, "original");
+  const target = assemblyPath(recording.id);
+  let finalized: Recording;
+
+  try {
+    await mkdir(path.dirname(target), { recursive: true });
+    const file = await open(target, "w");
+    const hash = createHash("sha256");
+    let size = 0;
+
+    try {
+      for (const chunk of chunks) {
+        const data = await readFile(chunkPath(recording.id, chunk.sequence)).catch(() => null);
+        if (!data || sha256(data) !== chunk.checksum) {
+          // Forget the bad chunk so the client sees it as missing and re-sends it
+          await prisma.recordingChunk.delete({ where: { id: chunk.id } });
+          throw new ServiceError("CONFLICT", `Chunk ${chunk.sequence} is damaged on the server; upload it again`);
+        }
+
+        hash.update(data);
+        size += data.length;
+        await file.write(data);
+      }
+    } finally {
+      await file.close();
+    }
+
+    const digest = hash.digest("hex");
+    if (checksum && checksum.toLowerCase() !== digest) {
+      // Every chunk matched its own checksum, so there is no telling which one is
+      // wrong. Start the upload over instead of failing the same way on every retry.
+      await prisma.recordingChunk.deleteMany({ where: { recordingId: recording.id } });
+      await discardUpload(recording.id);
+      throw new ServiceError(
+        "INVALID_PAYLOAD",
+        "Assembled file checksum does not match; the upload has been reset, so send every chunk again"
+      );
+    }
+
+    await getStorage().putFile(key, target, recording.mimeType);
+
+    const updated = await prisma.recording.update({
+      where: { id: recording.id },
+      data: { fileSize: size, storageKey: key, checksum: digest },
+    });
+
+    await prisma.recordingChunk.deleteMany({ where: { recordingId: recording.id } });
+    await rm(chunkDir(recording.id), { recursive: true, force: true });
+    finalized = updated;
+  } catch (error) {
+    // Back to UPLOADING so the client can fix things up and finalize again
+    await rm(target, { force: true });
+    await prisma.recording.update({ where: { id: recording.id }, data: { status: "UPLOADING" } });
+    throw error;
+  }
+
+  // Stays PROCESSING until the pipeline has validated and transcoded it
+  await enqueueJob(finalized.id, "PROCESS_RECORDING");
+  return alignRecording(finalized);
+}
@@ -0,0 +1,11 @@
+import prisma from "../db.js";
+
+// Display name used in "... by <name>" notifications
+export async function getUserName(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
+  return user?.name ?? "Anonymous";
+}
+
+// The only fields of another user that responses may include. Select through this
+// rather than including whole user rows, which carry the email and password hash.
+export const publicUserSelect = { id: true, name: true, avatarUrl: true } as const;
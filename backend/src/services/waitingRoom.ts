@@ -0,0 +1,133 @@
+import type { Room } from "@prisma/client";
+import prisma from "../db.js";
+import { userChannel } from "../socket/handler.js";
+import { admitFromWaitingRoom, refusalError } from "./admission.js";
+import { ServiceError } from "./errors.js";
+import { authorizeRoomAction, getUsersAllowedTo } from "./permissions.js";
+import { getRealtime } from "./realtime.js";
+import { getUserName, publicUserSelect } from "./users.js";
+import type { AdmitAllResult, WaitingRoomDecision } from "../socket/events.js";
+
+const participantInclude = {
+  user: { select: publicUserSelect },
+} as const;
+
+// The host and co-hosts, on every tab and node they are connected from
+async function toModerators(room: Pick<Room, "id" | "hostId">) {
+  const userIds = await getUsersAllowedTo(room, "waiting-room:manage");
+  return getRealtime().io.to(userIds.map(userChannel));
+}
+
+async function announceDecision(room: Room, userId: string, status: WaitingRoomDecision, resolvedBy: string) {
+  const { io } = getRealtime();
+
+  io.to(userChannel(userId)).emit(status === "APPROVED" ? "waiting-room-approved" : "waiting-room-rejected", {
+    roomId: room.id,
+    userId,
+  });
+  (await toModerators(room)).emit("waiting-room-resolved", { roomId: room.id, userId, status, resolvedBy });
+}
+
+async function requirePendingEntry(roomId: string, userId: string) {
+  const entry = await prisma.waitingRoom.findUnique({ where: { userId_roomId: { userId, roomId } } });
+  if (!entry || entry.status !== "PENDING") {
+    throw new ServiceError("NOT_FOUND", "That user is not waiting to join this room");
+  }
+  return entry;
+}
+
+// Called once a user has been put in the waiting room, so the host hears the knock
+export async function announceKnock(roomId: string, userId: string) {
+  const room = await prisma.room.findUnique({ where: { id: roomId } });
+  const entry = await prisma.waitingRoom.findUnique({
+    where: { userId_roomId: { userId, roomId } },
+    include: { user: { select: { name: true, avatarUrl: true } } },
+  });
+  if (!room || !entry) return;
+
+  (await toModerators(room)).emit("waiting-room-knock", {
+    roomId,
+    userId,
+    userName: entry.user.name,
+    avatarUrl: entry.user.avatarUrl,
+    requestedAt: entry.updatedAt.toISOString(),
+  });
+}
+
+export async function approveWaitingUser(roomId: string, actorId: string, userId: string) {
+  const { room } = await authorizeRoomAction(
+    roomId,
+    actorId,
+    "waiting-room:manage",
+    "Only the host or a co-host can approve participants"
+  );
+  await requirePendingEntry(roomId, userId);
+
+  const result = await admitFromWaitingRoom(roomId, userId);
+  if (result.status === "not-waiting") {
+    throw new ServiceError("NOT_FOUND", "That user is not waiting to join this room");
+  }
+  if (result.status !== "admitted") {
+    throw result.status === "banned"
+      ? refusalError("banned", "That user is banned from this room")
+      : refusalError(result.status);
+  }
+
+  await announceDecision(room, userId, "APPROVED", await getUserName(actorId));
+  return prisma.participant.findUniqueOrThrow({ where: { id: result.participant.id }, include: participantInclude });
+}
+
+export async function rejectWaitingUser(roomId: string, actorId: string, userId: string) {
+  const { room } = await authorizeRoomAction(
+    roomId,
+    actorId,
+    "waiting-room:manage",
+    "Only the host or a co-host can reject participants"
+  );
+
+  // Conditional, so an approval that got there first is not overwritten
+  const { count } = await prisma.waitingRoom.updateMany({
+    where: { roomId, userId, status: "PENDING" },
+    data: { status: "REJECTED" },
+  });
+  if (count === 0) {
+    throw new ServiceError("NOT_FOUND", "That user is not waiting to join this room");
+  }
+
+  await announceDecision(room, userId, "REJECTED", await getUserName(actorId));
+}
+
+// Admits everyone waiting, earliest first, until the room is full
+export async function admitAllWaitingUsers(roomId: string, actorId: string): Promise<AdmitAllResult> {
+  const { room } = await authorizeRoomAction(
+    roomId,
+    actorId,
+    "waiting-room:manage",
+    "Only the host or a co-host can admit participants"
+  );
+  if (!room.isActive) {
+    throw refusalError("inactive");
+  }
+
+  const waiting = await prisma.waitingRoom.findMany({
+    where: { roomId, status: "PENDING" },
+    orderBy: { createdAt: "asc" },
+  });
+  const resolvedBy = await getUserName(actorId);
+  const admitted: string[] = [];
+  let remaining = 0;
+
+  for (const [index, entry] of waiting.entries()) {
+    const result = await admitFromWaitingRoom(roomId, entry.userId);
+    if (result.status === "admitted") {
+      admitted.push(entry.userId);
+      await announceDecision(room, entry.userId, "APPROVED", resolvedBy);
+    } else if (result.status !== "banned" && result.status !== "not-waiting") {
+      // Full (or ended meanwhile): everyone from here on keeps waiting
+      remaining = waiting.length - index;
+      break;
+    }
+  }
+
+  return { admitted, remaining };
+}
@@ -0,0 +1,149 @@
+import prisma from "../db.js";
+import {
+  ChatMessageEventSchema,
+  ChatMessageRefEventSchema,
+  ChatReactionEventSchema,
+  DirectMessageEventSchema,
+  EditChatMessageEventSchema,
+} from "../schemas.js";
+import { requireChatAllowed } from "../services/moderation.js";
+import { authorizeRoomAction } from "../services/permissions.js";
+import {
+  addChatReaction,
+  createChatMessage,
+  deleteChatMessage,
+  editChatMessage,
+  findVisibleChatMessage,
+  removeChatReaction,
+} from "../services/chat.js";
+import { SocketContext, SocketEventError, userChannel } from "./handler.js";
+import type { ChatMessage } from "./events.js";
+
+export function registerChatHandlers({ io, socket, on, presence }: SocketContext) {
+  const { userId, userName } = socket.data;
+
+  const requirePresence = async (roomId: string) => {
+    const participant = await presence.get(roomId, userId);
+    if (!participant) {
+      throw new SocketEventError("NOT_IN_ROOM", "You are not in this room");
+    }
+    return participant;
+  };
+
+  // Posting, editing and reacting all follow the room's chat mode
+  const requireCanChat = async (roomId: string) => {
+    const participant = await requirePresence(roomId);
+    await requireChatAllowed(roomId, participant.role);
+  };
+
+  const requireVisibleMessage = async (roomId: string, messageId: string) => {
+    const message = await findVisibleChatMessage(roomId, messageId, userId);
+    if (!message) {
+      throw new SocketEventError("NOT_FOUND", "Message not found");
+    }
+    return message;
+  };
+
+  const requireLiveMessage = async (roomId: string, messageId: string) => {
+    const message = await requireVisibleMessage(roomId, messageId);
+    if (message.deleted) {
+      throw new SocketEventError("NOT_FOUND", "Message has been deleted");
+    }
+    return message;
+  };
+
+  // Room messages go to the room; direct messages only to both parties' sockets
+  const audienceOf = (message: Pick<ChatMessage, "roomId" | "userId" | "recipientId">) =>
+    message.recipientId
+      ? io.to([userChannel(message.userId), userChannel(message.recipientId)])
+      : io.to(message.roomId);
+
+  // Chat message event
+  on("chat-message", ChatMessageEventSchema, "Failed to send message", async ({ roomId, message, replyToId }) => {
+    await requireCanChat(roomId);
+    if (replyToId) {
+      await requireVisibleMessage(roomId, replyToId);
+    }
+
+    const chatMessage = await createChatMessage(roomId, userId, message, { replyToId });
+
+    // Broadcast to all in room including sender
+    io.to(roomId).emit("chat-message", chatMessage);
+    return chatMessage;
+  });
+
+  on(
+    "chat-direct-message",
+    DirectMessageEventSchema,
+    "Failed to send direct message",
+    async ({ roomId, recipientId, message, replyToId }) => {
+      await requireCanChat(roomId);
+
+      if (recipientId === userId) {
+        throw new SocketEventError("FORBIDDEN", "You cannot send a direct message to yourself");
+      }
+
+      const recipient = await prisma.participant.findUnique({
+        where: { userId_roomId: { userId: recipientId, roomId } },
+      });
+      if (!recipient || recipient.leftAt) {
+        throw new SocketEventError("NOT_IN_ROOM", "Recipient is not in this room");
+      }
+
+      if (replyToId) {
+        await requireVisibleMessage(roomId, replyToId);
+      }
+
+      const chatMessage = await createChatMessage(roomId, userId, message, { replyToId, recipientId });
+      audienceOf(chatMessage).emit("chat-message", chatMessage);
+
+      console.log(`User ${userName} sent a direct message in room ${roomId}`);
+      return chatMessage;
+    }
+  );
+
+  // Authors can edit their own messages
+  on("chat-edit-message", EditChatMessageEventSchema, "Failed to edit message", async ({ roomId, messageId, message }) => {
+    await requireCanChat(roomId);
+
+    const existing = await requireLiveMessage(roomId, messageId);
+    if (existing.userId !== userId) {
+      throw new SocketEventError("FORBIDDEN", "You can only edit your own messages");
+    }
+
+    const updated = await editChatMessage(messageId, message);
+    audienceOf(updated).emit("chat-message-edited", updated);
+    return updated;
+  });
+
+  // Authors can delete their own messages; the host and co-hosts can delete any room message
+  on("chat-delete-message", ChatMessageRefEventSchema, "Failed to delete message", async ({ roomId, messageId }) => {
+    await requirePresence(roomId);
+
+    const existing = await requireLiveMessage(roomId, messageId);
+    if (existing.userId !== userId) {
+      await authorizeRoomAction(roomId, userId, "chat:moderate", "Only the author, the host or a co-host can delete this message");
+    }
+
+    await deleteChatMessage(messageId);
+    audienceOf(existing).emit("chat-message-deleted", { roomId, messageId });
+  });
+
+  on("chat-add-reaction", ChatReactionEventSchema, "Failed to add reaction", async ({ roomId, messageId, emoji }) => {
+    await requireCanChat(roomId);
+    await requireLiveMessage(roomId, messageId);
+
+    const updated = await addChatReaction(messageId, userId, emoji);
+    audienceOf(updated).emit("chat-reactions-updated", { roomId, messageId, reactions: updated.reactions });
+    return updated;
+  });
+
+  on("chat-remove-reaction", ChatReactionEventSchema, "Failed to remove reaction", async ({ roomId, messageId, emoji }) => {
+    await requirePresence(roomId);
+    await requireLiveMessage(roomId, messageId);
+
+    const updated = await removeChatReaction(messageId, userId, emoji);
+    audienceOf(updated).emit("chat-reactions-updated", { roomId, messageId, reactions: updated.reactions });
+    return updated;
+  });
+}
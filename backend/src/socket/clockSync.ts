@@ -0,0 +1,101 @@
+import { ClockPongSchema, RoomEventSchema } from "../schemas.js";
+import { estimateFromExchange, recordClockSample } from "../services/clockSync.js";
+import { findRunningSession } from "../services/recordingSessions.js";
+import { SocketContext, SocketEventError } from "./handler.js";
+import type { ClockEstimate } from "./events.js";
+
+// Each burst keeps only its fastest exchange, which is the least skewed by queueing
+const PROBES_PER_BURST = 5;
+const PROBE_TIMEOUT_MS = 2000;
+// Bursts keep running through a take so post-processing can correct for drift
+const BURST_INTERVAL_MS = 10_000;
+
+// Wall clock with sub-millisecond precision
+const now = () => performance.timeOrigin + performance.now();
+
+// Estimates this client's clock offset against the server's while it is in a room.
+// Estimates taken during a take are stored against it for aligning the tracks.
+export function registerClockSyncHandlers({ socket, on }: SocketContext) {
+  const { userId } = socket.data;
+  const timers = new Map<string, NodeJS.Timeout>();
+  const inFlight = new Map<string, Promise<ClockEstimate | null>>();
+
+  const exchange = async (): Promise<ClockEstimate | null> => {
+    const serverSentAt = now();
+    const reply = ClockPongSchema.safeParse(
+      await socket.timeout(PROBE_TIMEOUT_MS).emitWithAck("clock-ping", { serverSentAt })
+    );
+    const serverReceivedAt = now();
+    return reply.success ? estimateFromExchange({ serverSentAt, serverReceivedAt, ...reply.data }) : null;
+  };
+
+  const burst = async () => {
+    let best: ClockEstimate | null = null;
+    for (let i = 0; i < PROBES_PER_BURST && socket.connected; i++) {
+      // A probe that timed out just doesn't count
+      const estimate = await exchange().catch(() => null);
+      if (estimate && (!best || estimate.rttMs < best.rttMs)) {
+        best = estimate;
+      }
+    }
+    return best;
+  };
+
+  const measure = async (roomId: string, onlyDuringTake: boolean) => {
+    if (onlyDuringTake && !(await findRunningSession(roomId))) return null;
+
+    const estimate = await burst();
+    // Looked up afterwards: the take may have started or stopped while the burst ran
+    const session = await findRunningSession(roomId);
+    if (estimate && session) {
+      await recordClockSample(session.id, userId, estimate);
+    }
+    return estimate;
+  };
+
+  // Bursts for one room never overlap (a slow client could otherwise pile them up);
+  // asking while one runs waits for its result
+  const sync = (roomId: string, onlyDuringTake: boolean) => {
+    let pending = inFlight.get(roomId);
+    if (!pending) {
+      pending = measure(roomId, onlyDuringTake).finally(() => inFlight.delete(roomId));
+      inFlight.set(roomId, pending);
+    }
+    return pending;
+  };
+
+  const stop = (roomId: string) => {
+    clearInterval(timers.get(roomId));
+    timers.delete(roomId);
+  };
+
+  const start = (roomId: string) => {
+    if (timers.has(roomId)) return;
+
+    const tick = () => {
+      // Left, or was removed by the host
+      if (!socket.rooms.has(roomId)) {
+        stop(roomId);
+        return;
+      }
+      sync(roomId, true).catch((error) => console.error("Error syncing clock:", error));
+    };
+    timers.set(roomId, setInterval(tick, BURST_INTERVAL_MS));
+    tick();
+  };
+
+  on("clock-sync", RoomEventSchema, "Failed to sync clock", async ({ roomId }) => {
+    if (!socket.rooms.has(roomId)) {
+      throw new SocketEventError("NOT_IN_ROOM", "You are not in this room");
+    }
+    return sync(roomId, false);
+  });
+
+  socket.on("disconnect", () => {
+    for (const roomId of Array.from(timers.keys())) {
+      stop(roomId);
+    }
+  });
+
+  return { start, stop };
+}
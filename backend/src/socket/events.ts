@@ -0,0 +1,356 @@
+// Socket.io event contract shared by the backend and the frontend. This file must
+// stay free of runtime imports so the frontend can `import type` it directly.
+
+export type ParticipantRoleName = "HOST" | "CO_HOST" | "GUEST";
+
+// Roles that can be granted directly; HOST only changes hands through a host transfer
+export type AssignableRoleName = Exclude<ParticipantRoleName, "HOST">;
+
+export type SocketErrorCode =
+  | "INVALID_PAYLOAD"
+  | "NOT_FOUND"
+  | "FORBIDDEN"
+  | "CONFLICT"
+  | "NOT_IN_ROOM"
+  | "ROOM_INACTIVE"
+  | "INTERNAL_ERROR";
+
+export interface SocketError {
+  code: SocketErrorCode;
+  message: string;
+  errors?: { path: (string | number)[]; message: string }[];
+}
+
+// Every client event accepts an optional acknowledgement callback
+export type Ack<T = void> = { ok: true; data: T } | { ok: false; error: SocketError };
+export type AckCallback<T = void> = (response: Ack<T>) => void;
+
+export interface ParticipantInfo {
+  userId: string;
+  userName: string;
+  isMuted: boolean;
+  isVideoOff: boolean;
+  isScreenSharing: boolean;
+  role: ParticipantRoleName;
+  status: "connected" | "reconnecting";
+}
+
+export interface IceServer {
+  urls: string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface IceServerConfig {
+  iceServers: IceServer[];
+  ttl: number;
+  expiresAt: string | null;
+}
+
+export interface SessionDescription {
+  type: "offer" | "answer";
+  sdp: string;
+}
+
+export interface IceCandidate {
+  candidate: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+  usernameFragment?: string | null;
+}
+
+// Who may post in the chat
+export type ChatModeName = "EVERYONE" | "HOSTS_ONLY" | "DISABLED";
+
+export interface RoomSettings {
+  videoEnabled: boolean;
+  audioOnly: boolean;
+  maxParticipants: number;
+  guestScreenShare: boolean;
+  // Moderation
+  isLocked: boolean;
+  guestUnmute: boolean;
+  chatMode: ChatModeName;
+}
+
+export interface ChatReactionSummary {
+  emoji: string;
+  userIds: string[];
+}
+
+export interface ChatMessage {
+  id: string;
+  roomId: string;
+  userId: string;
+  userName: string;
+  // Empty once the message is deleted
+  message: string;
+  timestamp: string;
+  editedAt: string | null;
+  deleted: boolean;
+  replyToId: string | null;
+  // Set for direct messages, which only the author and recipient receive
+  recipientId: string | null;
+  reactions: ChatReactionSummary[];
+}
+
+export interface ChatHistoryPage {
+  messages: ChatMessage[];
+  // Pass back as `cursor` to fetch the next older page; null when there is none
+  nextCursor: string | null;
+}
+
+export interface RaisedHandInfo {
+  userId: string;
+  userName: string;
+  raisedAt: string;
+}
+
+// Someone knocking on a room with the waiting room enabled
+export interface WaitingRoomEntryInfo {
+  roomId: string;
+  userId: string;
+  userName: string;
+  avatarUrl: string | null;
+  requestedAt: string;
+}
+
+export type WaitingRoomDecision = "APPROVED" | "REJECTED";
+
+export interface AdmitAllResult {
+  admitted: string[];
+  // Still waiting because the room filled up
+  remaining: number;
+}
+
+// One take of a synchronized multi-track recording
+export interface RecordingSessionInfo {
+  sessionId: string;
+  roomId: string;
+  take: number;
+  // Server time the take started; every track is aligned against it
+  startedAt: string;
+}
+
+// A client's clock minus the server's, from the fastest exchange of a ping burst
+export interface ClockEstimate {
+  offsetMs: number;
+  rttMs: number;
+}
+
+export interface RoomJoinedPayload {
+  roomId: string;
+  roomCode: string;
+  roomTitle: string;
+  participants: ParticipantInfo[];
+  settings: RoomSettings;
+  // The participant currently sharing their screen, if any
+  presenterId: string | null;
+  // Speaking order, earliest raised hand first
+  handQueue: RaisedHandInfo[];
+  activeSpeakerId: string | null;
+  iceServers: IceServerConfig;
+  chatHistory: ChatHistoryPage;
+}
+
+// Client -> server payloads
+
+export interface RoomPayload {
+  roomId: string;
+}
+
+export interface ChatMessagePayload extends RoomPayload {
+  message: string;
+  replyToId?: string;
+}
+
+export interface DirectMessagePayload extends ChatMessagePayload {
+  recipientId: string;
+}
+
+export interface ChatMessageRefPayload extends RoomPayload {
+  messageId: string;
+}
+
+export interface EditChatMessagePayload extends ChatMessageRefPayload {
+  message: string;
+}
+
+export interface ChatReactionPayload extends ChatMessageRefPayload {
+  emoji: string;
+}
+
+export interface ToggleAudioPayload extends RoomPayload {
+  isMuted: boolean;
+}
+
+export interface ToggleVideoPayload extends RoomPayload {
+  isVideoOff: boolean;
+}
+
+export interface TargetParticipantPayload extends RoomPayload {
+  targetUserId: string;
+}
+
+export interface RemoveParticipantPayload extends TargetParticipantPayload {
+  // Keep them from coming back until a host lifts the ban
+  ban?: boolean;
+  reason?: string;
+}
+
+export interface SessionDescriptionPayload extends TargetParticipantPayload {
+  description: SessionDescription;
+}
+
+export interface IceCandidatePayload extends TargetParticipantPayload {
+  // null signals end-of-candidates for the current ICE generation
+  candidate: IceCandidate | null;
+}
+
+export interface AudioLevelPayload extends RoomPayload {
+  // Normalised 0..1 input level (e.g. RMS from an AnalyserNode), sent a few times a second
+  level: number;
+}
+
+export interface SetParticipantRolePayload extends TargetParticipantPayload {
+  role: AssignableRoleName;
+}
+
+export interface ModerationSettingsPayload extends RoomPayload {
+  isLocked?: boolean;
+  guestUnmute?: boolean;
+  chatMode?: ChatModeName;
+}
+
+export interface WaitingParticipantPayload extends RoomPayload {
+  userId: string;
+}
+
+export interface ClientToServerEvents {
+  "join-room": (payload: RoomPayload, ack?: AckCallback<RoomJoinedPayload>) => void;
+  "leave-room": (payload: RoomPayload, ack?: AckCallback) => void;
+  "chat-message": (payload: ChatMessagePayload, ack?: AckCallback<ChatMessage>) => void;
+  "chat-direct-message": (payload: DirectMessagePayload, ack?: AckCallback<ChatMessage>) => void;
+  "chat-edit-message": (payload: EditChatMessagePayload, ack?: AckCallback<ChatMessage>) => void;
+  "chat-delete-message": (payload: ChatMessageRefPayload, ack?: AckCallback) => void;
+  "chat-add-reaction": (payload: ChatReactionPayload, ack?: AckCallback<ChatMessage>) => void;
+  "chat-remove-reaction": (payload: ChatReactionPayload, ack?: AckCallback<ChatMessage>) => void;
+  "toggle-audio": (payload: ToggleAudioPayload, ack?: AckCallback) => void;
+  "toggle-video": (payload: ToggleVideoPayload, ack?: AckCallback) => void;
+  "webrtc-offer": (payload: SessionDescriptionPayload, ack?: AckCallback) => void;
+  "webrtc-answer": (payload: SessionDescriptionPayload, ack?: AckCallback) => void;
+  "webrtc-ice-candidate": (payload: IceCandidatePayload, ack?: AckCallback) => void;
+  "start-screen-share": (payload: RoomPayload, ack?: AckCallback) => void;
+  "stop-screen-share": (payload: RoomPayload, ack?: AckCallback) => void;
+  "host-take-floor": (payload: RoomPayload, ack?: AckCallback) => void;
+  "audio-level": (payload: AudioLevelPayload, ack?: AckCallback) => void;
+  "raise-hand": (payload: RoomPayload, ack?: AckCallback) => void;
+  "lower-hand": (payload: RoomPayload, ack?: AckCallback) => void;
+  "host-call-on": (payload: TargetParticipantPayload, ack?: AckCallback) => void;
+  "host-dismiss-hand": (payload: TargetParticipantPayload, ack?: AckCallback) => void;
+  "host-clear-hands": (payload: RoomPayload, ack?: AckCallback) => void;
+  "host-mute-participant": (payload: TargetParticipantPayload, ack?: AckCallback) => void;
+  "host-remove-participant": (payload: RemoveParticipantPayload, ack?: AckCallback) => void;
+  "host-mute-all": (payload: RoomPayload, ack?: AckCallback) => void;
+  "host-update-moderation": (payload: ModerationSettingsPayload, ack?: AckCallback<RoomSettings>) => void;
+  "host-set-role": (payload: SetParticipantRolePayload, ack?: AckCallback) => void;
+  "host-transfer": (payload: TargetParticipantPayload, ack?: AckCallback) => void;
+  "approve-waiting-participant": (payload: WaitingParticipantPayload, ack?: AckCallback) => void;
+  "reject-waiting-participant": (payload: WaitingParticipantPayload, ack?: AckCallback) => void;
+  "admit-all-waiting": (payload: RoomPayload, ack?: AckCallback<AdmitAllResult>) => void;
+  "host-start-recording": (payload: RoomPayload, ack?: AckCallback<RecordingSessionInfo>) => void;
+  "host-stop-recording": (payload: RoomPayload, ack?: AckCallback<RecordingSessionInfo>) => void;
+  // Asks for a clock sync burst right away (e.g. on recording-started) instead of
+  // waiting for the next periodic one; null when no exchange came back in time
+  "clock-sync": (payload: RoomPayload, ack?: AckCallback<ClockEstimate | null>) => void;
+}
+
+// Server -> client payloads
+
+export interface ParticipantRef {
+  userId: string;
+  userName: string;
+}
+
+// Also sent on its own to anyone who joins while the take is running
+export interface RecordingStartedPayload extends RecordingSessionInfo {
+  startedBy: string;
+}
+
+export interface ClockPingPayload {
+  serverSentAt: number;
+}
+
+// Epoch milliseconds on the client's clock, with sub-millisecond precision where
+// available (performance.timeOrigin + performance.now())
+export interface ClockPongPayload {
+  clientReceivedAt: number;
+  clientSentAt: number;
+}
+
+export interface ServerToClientEvents {
+  "room-joined": (payload: RoomJoinedPayload) => void;
+  "participant-joined": (payload: ParticipantInfo) => void;
+  "participant-left": (payload: ParticipantRef) => void;
+  "participant-reconnecting": (payload: ParticipantRef) => void;
+  "participant-reconnected": (payload: ParticipantInfo) => void;
+  "chat-message": (payload: ChatMessage) => void;
+  "chat-message-edited": (payload: ChatMessage) => void;
+  "chat-message-deleted": (payload: { roomId: string; messageId: string }) => void;
+  "chat-reactions-updated": (payload: { roomId: string; messageId: string; reactions: ChatReactionSummary[] }) => void;
+  "participant-audio-changed": (payload: { userId: string; isMuted: boolean }) => void;
+  "participant-video-changed": (payload: { userId: string; isVideoOff: boolean }) => void;
+  "webrtc-offer": (payload: {
+    roomId: string;
+    fromUserId: string;
+    fromUserName: string;
+    description: SessionDescription;
+    polite: boolean;
+  }) => void;
+  "webrtc-answer": (payload: { roomId: string; fromUserId: string; description: SessionDescription }) => void;
+  "webrtc-ice-candidate": (payload: { roomId: string; fromUserId: string; candidate: IceCandidate | null }) => void;
+  "screen-share-started": (payload: ParticipantRef) => void;
+  // stoppedBy is set when the host took the floor from the presenter
+  "screen-share-stopped": (payload: { userId: string; stoppedBy?: string }) => void;
+  "presenter-changed": (payload: { roomId: string; presenterId: string | null }) => void;
+  "active-speaker-changed": (payload: { roomId: string; userId: string | null }) => void;
+  "hand-queue-updated": (payload: { roomId: string; handQueue: RaisedHandInfo[] }) => void;
+  "hand-called-on": (payload: { roomId: string; userId: string; calledBy: string }) => void;
+  "participant-muted-by-host": (payload: { userId: string; mutedBy: string }) => void;
+  "participant-removed-by-host": (payload: { userId: string; removedBy: string; banned: boolean }) => void;
+  "you-were-removed": (payload: { roomId: string; removedBy: string; banned: boolean }) => void;
+  // Everyone in userIds has been muted; their clients mute their local tracks
+  "room-muted-by-host": (payload: { roomId: string; userIds: string[]; mutedBy: string }) => void;
+  "room-settings-changed": (payload: { roomId: string; settings: RoomSettings; changedBy: string }) => void;
+  "participant-role-changed": (payload: {
+    roomId: string;
+    userId: string;
+    role: ParticipantRoleName;
+    changedBy: string;
+  }) => void;
+  "host-changed": (payload: { roomId: string; hostId: string; previousHostId: string; changedBy: string }) => void;
+  // Waiting room: knocks and resolutions go to the host and co-hosts, the decision
+  // itself to the waiting user (who is not in the room channel yet)
+  "waiting-room-knock": (entry: WaitingRoomEntryInfo) => void;
+  "waiting-room-resolved": (payload: {
+    roomId: string;
+    userId: string;
+    status: WaitingRoomDecision;
+    resolvedBy: string;
+  }) => void;
+  "waiting-room-approved": (payload: { roomId: string; userId: string }) => void;
+  "waiting-room-rejected": (payload: { roomId: string; userId: string }) => void;
+  // Clients start recording their local track on recording-started, tagging the
+  // upload with the sessionId, and stop on recording-stopped
+  "recording-started": (payload: RecordingStartedPayload) => void;
+  "recording-stopped": (payload: RecordingSessionInfo & { stoppedAt: string; stoppedBy: string }) => void;
+  // NTP-style probe: reply through the callback as soon as possible
+  "clock-ping": (payload: ClockPingPayload, ack: (reply: ClockPongPayload) => void) => void;
+  // Failures of client events sent without an ack callback
+  error: (error: SocketError) => void;
+}
+
+export interface SocketData {
+  userId: string;
+  userName: string;
+}
@@ -0,0 +1,93 @@
+import { Server, Socket } from "socket.io";
+import { z } from "zod";
+import { ServiceError } from "../services/errors.js";
+import type { PresenceStore } from "./presence.js";
+import {
+  AckCallback,
+  ClientToServerEvents,
+  ServerToClientEvents,
+  SocketData,
+  SocketError,
+  SocketErrorCode,
+} from "./events.js";
+
+export type AppServer = Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+export type AppSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+
+type EventName = keyof ClientToServerEvents;
+type EventPayload<E extends EventName> = Parameters<ClientToServerEvents[E]>[0];
+type EventResult<E extends EventName> =
+  NonNullable<Parameters<ClientToServerEvents[E]>[1]> extends AckCallback<infer T> ? T : never;
+
+export type EventRegistrar = ReturnType<typeof createEventRegistrar>;
+
+// What a feature module needs to register its handlers for one connection
+export interface SocketContext {
+  io: AppServer;
+  socket: AppSocket;
+  on: EventRegistrar;
+  presence: PresenceStore;
+}
+
+// Every socket joins a channel named after its user, so events can target a
+// person (all of their tabs, on any node) rather than one socket or a whole room.
+export const userChannel = (userId: string) => `user:${userId}`;
+
+// Thrown from event handlers to fail with a specific code instead of INTERNAL_ERROR
+export class SocketEventError extends Error {
+  constructor(
+    public code: SocketErrorCode,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+// Wraps socket.on so every client event is validated against its schema before
+// the handler runs. The handler's return value is sent back through the ack
+// callback; failures go to the ack when there is one, otherwise to an "error" event.
+export function createEventRegistrar(socket: AppSocket) {
+  const fail = (ack: unknown, error: SocketError) => {
+    if (typeof ack === "function") {
+      ack({ ok: false, error });
+    } else {
+      socket.emit("error", error);
+    }
+  };
+
+  return function on<E extends EventName>(
+    event: E,
+    schema: z.ZodType<EventPayload<E>, z.ZodTypeDef, unknown>,
+    failureMessage: string,
+    handler: (payload: EventPayload<E>) => Promise<EventResult<E>>
+  ) {
+    const listener = async (payload: unknown, ack?: unknown) => {
+      const result = schema.safeParse(payload);
+      if (!result.success) {
+        fail(ack, {
+          code: "INVALID_PAYLOAD",
+          message: "Invalid payload",
+          errors: result.error.errors.map(({ path, message }) => ({ path, message })),
+        });
+        return;
+      }
+
+      try {
+        const data = await handler(result.data);
+        if (typeof ack === "function") {
+          ack({ ok: true, data });
+        }
+      } catch (error) {
+        if (error instanceof SocketEventError || error instanceof ServiceError) {
+          fail(ack, { code: error.code, message: error.message });
+          return;
+        }
+        console.error(`Error handling ${event}:`, error);
+        fail(ack, { code: "INTERNAL_ERROR", message: failureMessage });
+      }
+    };
+
+    // The generic E is too wide for socket.io's listener typing; the schema already pins the shape
+    socket.on(event, listener as never);
+  };
+}
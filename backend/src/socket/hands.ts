@@ -0,0 +1,82 @@
+import { RoomEventSchema, TargetParticipantEventSchema } from "../schemas.js";
+import { can } from "../services/permissions.js";
+import { SocketContext, SocketEventError } from "./handler.js";
+import type { PresenceStore } from "./presence.js";
+import type { RaisedHandInfo } from "./events.js";
+
+// Resolves the stored queue into what clients render, in speaking order
+export async function getHandQueueInfo(presence: PresenceStore, roomId: string): Promise<RaisedHandInfo[]> {
+  const [queue, participants] = await Promise.all([presence.getHandQueue(roomId), presence.list(roomId)]);
+  const names = new Map(participants.map((participant) => [participant.userId, participant.userName]));
+
+  return queue
+    .filter((hand) => names.has(hand.userId))
+    .map((hand) => ({
+      userId: hand.userId,
+      userName: names.get(hand.userId)!,
+      raisedAt: new Date(hand.raisedAt).toISOString(),
+    }));
+}
+
+// Raise-hand queue for panel-style sessions: guests queue up, the host and co-hosts work through it
+export function registerHandHandlers({ io, socket, on, presence }: SocketContext) {
+  const { userId, userName } = socket.data;
+
+  const requireParticipant = async (roomId: string) => {
+    const participant = await presence.get(roomId, userId);
+    if (!participant) {
+      throw new SocketEventError("NOT_IN_ROOM", "You are not in this room");
+    }
+    return participant;
+  };
+
+  const requireModerator = async (roomId: string, message: string) => {
+    const participant = await requireParticipant(roomId);
+    if (!can(participant.role, "hands:manage")) {
+      throw new SocketEventError("FORBIDDEN", message);
+    }
+  };
+
+  const broadcastQueue = async (roomId: string) => {
+    io.to(roomId).emit("hand-queue-updated", { roomId, handQueue: await getHandQueueInfo(presence, roomId) });
+  };
+
+  on("raise-hand", RoomEventSchema, "Failed to raise hand", async ({ roomId }) => {
+    await requireParticipant(roomId);
+    await presence.raiseHand(roomId, userId);
+    await broadcastQueue(roomId);
+  });
+
+  on("lower-hand", RoomEventSchema, "Failed to lower hand", async ({ roomId }) => {
+    await requireParticipant(roomId);
+    if (await presence.lowerHand(roomId, userId)) {
+      await broadcastQueue(roomId);
+    }
+  });
+
+  on("host-call-on", TargetParticipantEventSchema, "Failed to call on participant", async ({ roomId, targetUserId }) => {
+    await requireModerator(roomId, "Only the host or a co-host can call on participants");
+
+    if (!(await presence.lowerHand(roomId, targetUserId))) {
+      throw new SocketEventError("NOT_FOUND", "That participant does not have their hand raised");
+    }
+
+    io.to(roomId).emit("hand-called-on", { roomId, userId: targetUserId, calledBy: userName });
+    await broadcastQueue(roomId);
+  });
+
+  on("host-dismiss-hand", TargetParticipantEventSchema, "Failed to dismiss hand", async ({ roomId, targetUserId }) => {
+    await requireModerator(roomId, "Only the host or a co-host can dismiss raised hands");
+
+    if (await presence.lowerHand(roomId, targetUserId)) {
+      await broadcastQueue(roomId);
+    }
+  });
+
+  on("host-clear-hands", RoomEventSchema, "Failed to clear raised hands", async ({ roomId }) => {
+    await requireModerator(roomId, "Only the host or a co-host can clear raised hands");
+
+    await presence.clearHandQueue(roomId);
+    await broadcastQueue(roomId);
+  });
+}
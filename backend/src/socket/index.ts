@@ -1,36 +1,132 @@
 import { Server as HttpServer } from "http";
-import { Server, Socket } from "socket.io";
+import { Server } from "socket.io";
+import { createAdapter } from "@socket.io/redis-adapter";
+import { createClient } from "redis";
 import { verifyToken } from "../middleware/auth.js";
 import prisma from "../db.js";
+import { getIceServerConfig } from "../services/turn.js";
+import { requireAdmitted } from "../services/admission.js";
+import { banUser } from "../services/bans.js";
+import { getChatHistory } from "../services/chat.js";
+import { requireUnmuteAllowed, toRoomSettings } from "../services/moderation.js";
+import { authorizeRoomAction } from "../services/permissions.js";
+import { setRealtime } from "../services/realtime.js";
+import { getRunningSessionAnnouncement } from "../services/recordingSessions.js";
+import {
+  RemoveParticipantEventSchema,
+  RoomEventSchema,
+  TargetParticipantEventSchema,
+  ToggleAudioEventSchema,
+  ToggleVideoEventSchema,
+  WebRtcAnswerEventSchema,
+  WebRtcIceCandidateEventSchema,
+  WebRtcOfferEventSchema,
+} from "../schemas.js";
+import {
+  RoomParticipant,
+  PresenceStore,
+  createMemoryPresenceStore,
+  createRedisPresenceStore,
+} from "./presence.js";
+import { AppServer, SocketEventError, createEventRegistrar, userChannel } from "./handler.js";
+import { registerChatHandlers } from "./chat.js";
+import { registerClockSyncHandlers } from "./clockSync.js";
+import { registerPresenterHandlers } from "./presenter.js";
+import { getHandQueueInfo, registerHandHandlers } from "./hands.js";
+import { registerModerationHandlers } from "./moderation.js";
+import { registerRecordingHandlers } from "./recording.js";
+import { registerRoleHandlers } from "./roles.js";
+import { registerWaitingRoomHandlers } from "./waitingRoom.js";
+import { registerSpeakerHandlers, updateActiveSpeaker } from "./speakers.js";
+import type { ParticipantInfo, ParticipantRoleName, RoomJoinedPayload } from "./events.js";
+
+// Leave timers for participants inside their reconnect grace window, keyed by `${roomId}:${userId}`.
+// Timers are local to the node that saw the disconnect; on expiry they re-check the
+// shared presence entry, so a reconnect landing on another node still wins.
+const pendingLeaves = new Map<string, NodeJS.Timeout>();
+
+const DEFAULT_RECONNECT_GRACE_MS = 30_000;
+
+function cancelPendingLeave(roomId: string, userId: string) {
+  const key = `${roomId}:${userId}`;
+  const timer = pendingLeaves.get(key);
+  if (timer) {
+    clearTimeout(timer);
+    pendingLeaves.delete(key);
+  }
+}
+
+// With REDIS_URL set, presence lives in Redis and the Socket.io adapter fans
+// broadcasts out to every backend instance; otherwise everything stays in-process.
+async function setupPresence(io: AppServer): Promise<PresenceStore> {
+  const redisUrl = process.env.REDIS_URL;
+  if (!redisUrl) {
+    return createMemoryPresenceStore();
+  }
+
+  const pubClient = createClient({ url: redisUrl });
+  const subClient = pubClient.duplicate();
+  pubClient.on("error", (error) => console.error("Redis pub client error:", error));
+  subClient.on("error", (error) => console.error("Redis sub client error:", error));
 
-interface AuthenticatedSocket extends Socket {
-  userId?: string;
-  userName?: string;
+  await Promise.all([pubClient.connect(), subClient.connect()]);
+  io.adapter(createAdapter(pubClient, subClient));
+
+  console.log("Socket.io using Redis adapter");
+  return createRedisPresenceStore(pubClient);
 }
 
-interface RoomParticipant {
-  odId: string;
-  odName: string;
-  odIsMuted: boolean;
-  odIsVideoOff: boolean;
-  odRole: "HOST" | "GUEST";
+// Strip server-only fields before sending a participant to clients
+function toParticipantInfo({ socketId, isSpeaking, audioLevel, ...info }: RoomParticipant): ParticipantInfo {
+  return info;
 }
 
-// Track active participants in rooms
-const roomParticipants = new Map<string, Map<string, RoomParticipant>>();
+// Deterministic tie-break for offer glare ("perfect negotiation"): the peer with
+// the greater user id is polite and rolls back its own offer on collision.
+function isPolitePeer(userId: string, peerUserId: string): boolean {
+  return userId > peerUserId;
+}
 
-export function setupSocketServer(httpServer: HttpServer) {
-  const io = new Server(httpServer, {
+export async function setupSocketServer(httpServer: HttpServer) {
+  const io: AppServer = new Server(httpServer, {
     cors: {
       origin: "*",
       methods: ["GET", "POST"],
     },
   });
 
+  const presence = await setupPresence(io);
+  setRealtime({ io, presence });
+
+  const removeParticipant = async (roomId: string, userId: string) => {
+    cancelPendingLeave(roomId, userId);
+    const removed = await presence.remove(roomId, userId);
+
+    // A presenter who leaves takes their screen share with them
+    if (removed.wasPresenter) {
+      io.to(roomId).emit("presenter-changed", { roomId, presenterId: null });
+    }
+
+    // ...and their place in the speaking queue. Reconnects never get here, so a
+    // raised hand survives a network blip.
+    if (removed.hadRaisedHand) {
+      io.to(roomId).emit("hand-queue-updated", { roomId, handQueue: await getHandQueueInfo(presence, roomId) });
+    }
+
+    // Nobody holds the spot for now; whoever is still talking takes it over
+    if (removed.wasActiveSpeaker) {
+      io.to(roomId).emit("active-speaker-changed", { roomId, userId: null });
+      await updateActiveSpeaker(io, presence, roomId);
+    }
+  };
+
+  // How long a dropped participant is shown as "reconnecting" before they are treated as gone
+  const reconnectGraceMs = Number(process.env.RECONNECT_GRACE_MS ?? DEFAULT_RECONNECT_GRACE_MS);
+
   // Authentication middleware
-  io.use(async (socket: AuthenticatedSocket, next) => {
+  io.use(async (socket, next) => {
     const token = socket.handshake.auth.token || socket.handshake.headers.authorization?.replace("Bearer ", "");
-    
+
     if (!token) {
       return next(new Error("Authentication required"));
     }
@@ -40,321 +136,327 @@ export function setupSocketServer(httpServer: HttpServer) {
       if (!decoded) {
         return next(new Error("Invalid token"));
       }
-      socket.userId = decoded.userId;
-      
+      socket.data.userId = decoded.userId;
+
       // Get user name from database
-      const user = await prisma.user.findUnique({ 
+      const user = await prisma.user.findUnique({
         where: { id: decoded.userId },
         select: { name: true }
       });
-      socket.userName = user?.name || "Anonymous";
-      
+      socket.data.userName = user?.name || "Anonymous";
+
       next();
     } catch (error) {
       next(new Error("Authentication failed"));
     }
   });
 
-  io.on("connection", (socket: AuthenticatedSocket) => {
-    console.log(`User connected: ${socket.userId} (${socket.userName})`);
+  io.on("connection", (socket) => {
+    const { userId, userName } = socket.data;
+    const on = createEventRegistrar(socket);
 
-    // Join room event
-    socket.on("join-room", async (data: { roomId: string; roomCode?: string }) => {
-      try {
-        const roomId = data.roomId;
-        
-        // Verify room exists and user is a participant
-        const room = await prisma.room.findUnique({
-          where: { id: roomId },
-          include: {
-            participants: {
-              where: { userId: socket.userId, leftAt: null },
-            },
-          },
-        });
+    console.log(`User connected: ${userId} (${userName})`);
 
-        if (!room) {
-          socket.emit("error", { message: "Room not found" });
-          return;
-        }
+    socket.join(userChannel(userId));
+    registerChatHandlers({ io, socket, on, presence });
+    registerPresenterHandlers({ io, socket, on, presence });
+    registerHandHandlers({ io, socket, on, presence });
+    registerRoleHandlers({ io, socket, on, presence });
+    registerModerationHandlers({ io, socket, on, presence });
+    registerWaitingRoomHandlers({ io, socket, on, presence });
+    registerRecordingHandlers({ io, socket, on, presence });
+    const speakers = registerSpeakerHandlers({ io, socket, on, presence });
+    const clockSync = registerClockSyncHandlers({ io, socket, on, presence });
 
-        if (!room.isActive) {
-          socket.emit("error", { message: "Room is not active" });
-          return;
-        }
-
-        const participant = room.participants[0];
-        if (!participant) {
-          socket.emit("error", { message: "You are not a participant in this room" });
-          return;
-        }
-
-        // Join the socket room
-        socket.join(roomId);
+    // Join room event
+    on("join-room", RoomEventSchema, "Failed to join room", async ({ roomId }) => {
+      // Verify the user was admitted over REST (or from the waiting room) and still may be here
+      const { room, participant } = await requireAdmitted(roomId, userId);
 
-        // Initialize room participants map if not exists
-        if (!roomParticipants.has(roomId)) {
-          roomParticipants.set(roomId, new Map());
-        }
+      // Join the socket room
+      socket.join(roomId);
 
-        // Add participant to tracking
-        const participantData: RoomParticipant = {
-          odId: socket.userId!,
-          odName: socket.userName!,
-          odIsMuted: false,
-          odIsVideoOff: !room.videoEnabled,
-          odRole: participant.role as "HOST" | "GUEST",
-        };
-        roomParticipants.get(roomId)!.set(socket.userId!, participantData);
-
-        // Send current participants list to the joining user
-        const currentParticipants = Array.from(roomParticipants.get(roomId)!.values());
-        socket.emit("room-joined", {
-          roomId,
-          roomCode: room.code,
-          roomTitle: room.title,
-          participants: currentParticipants,
-          settings: {
-            videoEnabled: room.videoEnabled,
-            audioOnly: room.audioOnly,
-            maxParticipants: room.maxParticipants,
-          },
-        });
+      // A participant still tracked in this room is resuming their session (reconnect
+      // within the grace window, or a new tab): keep their media state and role.
+      const existing = await presence.get(roomId, userId);
+      cancelPendingLeave(roomId, userId);
 
-        // Broadcast to others in the room
-        socket.to(roomId).emit("participant-joined", {
-          odId: socket.userId,
-          odName: socket.userName,
-          odRole: participant.role,
-        });
+      if (existing && existing.socketId !== socket.id) {
+        // Detach the previous socket so it stops receiving room broadcasts
+        io.in(existing.socketId).socketsLeave(roomId);
+      }
 
-        console.log(`User ${socket.userName} joined room ${roomId}`);
-      } catch (error) {
-        console.error("Error joining room:", error);
-        socket.emit("error", { message: "Failed to join room" });
+      const participantData: RoomParticipant = existing
+        ? { ...existing, userName, socketId: socket.id, status: "connected" }
+        : {
+            userId,
+            userName,
+            isMuted: false,
+            isVideoOff: !room.videoEnabled,
+            isScreenSharing: false,
+            role: participant.role as ParticipantRoleName,
+            socketId: socket.id,
+            status: "connected",
+          };
+      await presence.set(roomId, participantData);
+
+      // Send current participants list to the joining user
+      const snapshot: RoomJoinedPayload = {
+        roomId,
+        roomCode: room.code,
+        roomTitle: room.title,
+        participants: (await presence.list(roomId)).map(toParticipantInfo),
+        settings: toRoomSettings(room),
+        presenterId: await presence.getPresenter(roomId),
+        handQueue: await getHandQueueInfo(presence, roomId),
+        activeSpeakerId: (await presence.getActiveSpeaker(roomId))?.userId ?? null,
+        iceServers: getIceServerConfig(userId),
+        chatHistory: await getChatHistory(roomId, userId),
+      };
+      socket.emit("room-joined", snapshot);
+
+      // Joining mid-take: start recording along with everyone else
+      const runningTake = await getRunningSessionAnnouncement(roomId);
+      if (runningTake) {
+        socket.emit("recording-started", runningTake);
+      }
+      clockSync.start(roomId);
+
+      // Broadcast to others in the room
+      if (existing) {
+        socket.to(roomId).emit("participant-reconnected", toParticipantInfo(participantData));
+        console.log(`User ${userName} reconnected to room ${roomId}`);
+      } else {
+        socket.to(roomId).emit("participant-joined", toParticipantInfo(participantData));
+        console.log(`User ${userName} joined room ${roomId}`);
       }
+
+      return snapshot;
     });
 
     // Leave room event
-    socket.on("leave-room", async (data: { roomId: string }) => {
-      try {
-        const { roomId } = data;
-
-        // Remove from socket room
-        socket.leave(roomId);
+    on("leave-room", RoomEventSchema, "Failed to leave room", async ({ roomId }) => {
+      // Remove from socket room
+      socket.leave(roomId);
+      await speakers.flush(roomId);
+      clockSync.stop(roomId);
+
+      // A stale tab leaving must not evict the user's newer connection
+      const participant = await presence.get(roomId, userId);
+      if (participant?.socketId !== socket.id) {
+        return;
+      }
 
-        // Remove from tracking
-        if (roomParticipants.has(roomId)) {
-          roomParticipants.get(roomId)!.delete(socket.userId!);
-          
-          // Clean up empty rooms
-          if (roomParticipants.get(roomId)!.size === 0) {
-            roomParticipants.delete(roomId);
-          }
-        }
+      // Remove from tracking
+      await removeParticipant(roomId, userId);
 
-        // Broadcast to others
-        socket.to(roomId).emit("participant-left", {
-          userId: socket.userId,
-          userName: socket.userName,
-        });
+      // Broadcast to others
+      socket.to(roomId).emit("participant-left", { userId, userName });
 
-        console.log(`User ${socket.userName} left room ${roomId}`);
-      } catch (error) {
-        console.error("Error leaving room:", error);
-        socket.emit("error", { message: "Failed to leave room" });
-      }
+      console.log(`User ${userName} left room ${roomId}`);
     });
 
-    // Chat message event
-    socket.on("chat-message", async (data: { roomId: string; message: string }) => {
-      try {
-        const { roomId, message } = data;
-
-        if (!message || message.trim().length === 0) {
-          return;
-        }
-
-        // Verify user is in the room
-        if (!roomParticipants.has(roomId) || !roomParticipants.get(roomId)!.has(socket.userId!)) {
-          socket.emit("error", { message: "You are not in this room" });
-          return;
+    // Media state change events
+    on("toggle-audio", ToggleAudioEventSchema, "Failed to update audio state", async ({ roomId, isMuted }) => {
+      if (!isMuted) {
+        const current = await presence.get(roomId, userId);
+        if (!current) {
+          throw new SocketEventError("NOT_IN_ROOM", "You are not in this room");
         }
+        await requireUnmuteAllowed(roomId, current.role);
+      }
 
-        const chatMessage = {
-          id: `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          userId: socket.userId,
-          userName: socket.userName,
-          message: message.trim(),
-          timestamp: new Date().toISOString(),
-        };
-
-        // Broadcast to all in room including sender
-        io.to(roomId).emit("chat-message", chatMessage);
-      } catch (error) {
-        console.error("Error sending chat message:", error);
-        socket.emit("error", { message: "Failed to send message" });
+      const participant = await presence.update(roomId, userId, { isMuted });
+      if (!participant) {
+        throw new SocketEventError("NOT_IN_ROOM", "You are not in this room");
       }
+
+      socket.to(roomId).emit("participant-audio-changed", { userId, isMuted });
     });
 
-    // Media state change events
-    socket.on("toggle-audio", (data: { roomId: string; isMuted: boolean }) => {
-      const { roomId, isMuted } = data;
+    on("toggle-video", ToggleVideoEventSchema, "Failed to update video state", async ({ roomId, isVideoOff }) => {
+      const participant = await presence.update(roomId, userId, { isVideoOff });
+      if (!participant) {
+        throw new SocketEventError("NOT_IN_ROOM", "You are not in this room");
+      }
 
-      if (roomParticipants.has(roomId) && roomParticipants.get(roomId)!.has(socket.userId!)) {
-        const participant = roomParticipants.get(roomId)!.get(socket.userId!)!;
-        participant.odIsMuted = isMuted;
+      socket.to(roomId).emit("participant-video-changed", { userId, isVideoOff });
+    });
 
-        socket.to(roomId).emit("participant-audio-changed", {
-          odId: socket.userId,
-          odIsMuted: isMuted,
-        });
+    // WebRTC signaling relay. Messages are only forwarded between two users that are
+    // both present in the same room, and only from the socket that joined it.
+    const getSignalingTarget = async (roomId: string, targetUserId: string): Promise<RoomParticipant> => {
+      const [sender, target] = await Promise.all([
+        presence.get(roomId, userId),
+        presence.get(roomId, targetUserId),
+      ]);
+
+      if (!sender || sender.socketId !== socket.id) {
+        throw new SocketEventError("NOT_IN_ROOM", "You are not in this room");
+      }
+      if (!target || target.status !== "connected" || targetUserId === userId) {
+        throw new SocketEventError("NOT_IN_ROOM", "Target participant is not in this room");
       }
+      return target;
+    };
+
+    // Offers are used both for the initial connection and for renegotiation
+    // (e.g. adding a screen track), so the same event covers both.
+    on("webrtc-offer", WebRtcOfferEventSchema, "Failed to relay offer", async ({ roomId, targetUserId, description }) => {
+      const target = await getSignalingTarget(roomId, targetUserId);
+
+      io.to(target.socketId).emit("webrtc-offer", {
+        roomId,
+        fromUserId: userId,
+        fromUserName: userName,
+        description,
+        polite: isPolitePeer(targetUserId, userId),
+      });
     });
 
-    socket.on("toggle-video", (data: { roomId: string; isVideoOff: boolean }) => {
-      const { roomId, isVideoOff } = data;
+    on("webrtc-answer", WebRtcAnswerEventSchema, "Failed to relay answer", async ({ roomId, targetUserId, description }) => {
+      const target = await getSignalingTarget(roomId, targetUserId);
 
-      if (roomParticipants.has(roomId) && roomParticipants.get(roomId)!.has(socket.userId!)) {
-        const participant = roomParticipants.get(roomId)!.get(socket.userId!)!;
-        participant.odIsVideoOff = isVideoOff;
+      io.to(target.socketId).emit("webrtc-answer", { roomId, fromUserId: userId, description });
+    });
 
-        socket.to(roomId).emit("participant-video-changed", {
-          odId: socket.userId,
-          odIsVideoOff: isVideoOff,
-        });
+    on(
+      "webrtc-ice-candidate",
+      WebRtcIceCandidateEventSchema,
+      "Failed to relay ICE candidate",
+      async ({ roomId, targetUserId, candidate }) => {
+        const target = await getSignalingTarget(roomId, targetUserId);
+
+        io.to(target.socketId).emit("webrtc-ice-candidate", { roomId, fromUserId: userId, candidate });
       }
-    });
+    );
 
     // Host control events
-    socket.on("host-mute-participant", async (data: { roomId: string; targetUserId: string }) => {
-      try {
-        const { roomId, targetUserId } = data;
-
-        // Verify caller is host
-        const room = await prisma.room.findUnique({ where: { id: roomId } });
-        if (!room || room.hostId !== socket.userId) {
-          socket.emit("error", { message: "Only the host can mute participants" });
-          return;
+    on(
+      "host-mute-participant",
+      TargetParticipantEventSchema,
+      "Failed to mute participant",
+      async ({ roomId, targetUserId }) => {
+        const { room } = await authorizeRoomAction(
+          roomId,
+          userId,
+          "participants:mute",
+          "Only the host or a co-host can mute participants"
+        );
+
+        // Same exemption as mute-all
+        if (targetUserId === room.hostId) {
+          throw new SocketEventError("FORBIDDEN", "The host cannot be muted");
         }
 
         // Update participant state
-        if (roomParticipants.has(roomId) && roomParticipants.get(roomId)!.has(targetUserId)) {
-          const participant = roomParticipants.get(roomId)!.get(targetUserId)!;
-          participant.odIsMuted = true;
+        if (!(await presence.update(roomId, targetUserId, { isMuted: true }))) {
+          throw new SocketEventError("NOT_IN_ROOM", "Target participant is not in this room");
         }
 
         // Notify the muted participant
-        io.to(roomId).emit("participant-muted-by-host", {
-          odId: targetUserId,
-          mutedBy: socket.userName,
-        });
-      } catch (error) {
-        console.error("Error muting participant:", error);
-        socket.emit("error", { message: "Failed to mute participant" });
+        io.to(roomId).emit("participant-muted-by-host", { userId: targetUserId, mutedBy: userName });
       }
-    });
-
-    socket.on("host-remove-participant", async (data: { roomId: string; targetUserId: string }) => {
-      try {
-        const { roomId, targetUserId } = data;
+    );
+
+    on(
+      "host-remove-participant",
+      RemoveParticipantEventSchema,
+      "Failed to remove participant",
+      async ({ roomId, targetUserId, ban = false, reason }) => {
+        const { room } = await authorizeRoomAction(
+          roomId,
+          userId,
+          "participants:remove",
+          "Only the host or a co-host can remove participants"
+        );
 
-        // Verify caller is host
-        const room = await prisma.room.findUnique({ where: { id: roomId } });
-        if (!room || room.hostId !== socket.userId) {
-          socket.emit("error", { message: "Only the host can remove participants" });
-          return;
+        if (targetUserId === userId) {
+          throw new SocketEventError("FORBIDDEN", "You cannot remove yourself");
+        }
+        if (targetUserId === room.hostId) {
+          throw new SocketEventError("FORBIDDEN", "The host cannot be removed");
         }
 
-        // Can't remove yourself as host
-        if (targetUserId === socket.userId) {
-          socket.emit("error", { message: "Host cannot remove themselves" });
-          return;
+        // Ban first, so they can't slip back in between being removed and being banned
+        if (ban) {
+          await banUser(roomId, userId, targetUserId, reason);
         }
 
-        // Update database - mark participant as left
+        // Update database - mark participant as left, without any co-host role
         await prisma.participant.updateMany({
           where: { roomId, userId: targetUserId, leftAt: null },
-          data: { leftAt: new Date() },
+          data: { leftAt: new Date(), role: "GUEST" },
         });
 
         // Remove from tracking
-        if (roomParticipants.has(roomId)) {
-          roomParticipants.get(roomId)!.delete(targetUserId);
-        }
+        const target = await presence.get(roomId, targetUserId);
+        await removeParticipant(roomId, targetUserId);
 
         // Notify the removed participant
-        io.to(roomId).emit("participant-removed-by-host", {
-          odId: targetUserId,
-          removedBy: socket.userName,
-        });
+        io.to(roomId).emit("participant-removed-by-host", { userId: targetUserId, removedBy: userName, banned: ban });
 
-        // Force disconnect the removed user from the room
-        const sockets = await io.in(roomId).fetchSockets();
-        for (const s of sockets) {
-          const authSocket = s as unknown as AuthenticatedSocket;
-          if (authSocket.userId === targetUserId) {
-            authSocket.leave(roomId);
-            authSocket.emit("you-were-removed", { roomId, removedBy: socket.userName });
-          }
+        // Force disconnect the removed user from the room, wherever their socket lives
+        if (target) {
+          io.in(target.socketId).socketsLeave(roomId);
+          io.to(target.socketId).emit("you-were-removed", { roomId, removedBy: userName, banned: ban });
         }
-      } catch (error) {
-        console.error("Error removing participant:", error);
-        socket.emit("error", { message: "Failed to remove participant" });
       }
-    });
+    );
+
+    // Handle disconnection. "disconnecting" still has socket.rooms populated, which
+    // is the only record of the rooms this socket was in that doesn't need a lookup.
+    socket.on("disconnecting", async () => {
+      console.log(`User disconnected: ${userId}`);
+
+      const roomIds = Array.from(socket.rooms).filter(
+        (roomId) => roomId !== socket.id && roomId !== userChannel(userId)
+      );
+
+      // Hold the user in every room they were in for the grace window before
+      // treating them as having left
+      for (const roomId of roomIds) {
+        try {
+          const participant = await presence.get(roomId, userId);
+
+          // Ignore stale sockets if the user has since joined from another tab
+          if (participant?.socketId !== socket.id) {
+            continue;
+          }
 
-    // Waiting room events (for hosts)
-    socket.on("approve-waiting-participant", async (data: { roomId: string; userId: string }) => {
-      try {
-        const { roomId, userId } = data;
+          if (reconnectGraceMs <= 0) {
+            await removeParticipant(roomId, userId);
+            io.to(roomId).emit("participant-left", { userId, userName });
+            continue;
+          }
 
-        const room = await prisma.room.findUnique({ where: { id: roomId } });
-        if (!room || room.hostId !== socket.userId) {
-          socket.emit("error", { message: "Only the host can approve participants" });
-          return;
+          await presence.update(roomId, userId, { status: "reconnecting" });
+          io.to(roomId).emit("participant-reconnecting", { userId, userName });
+
+          pendingLeaves.set(
+            `${roomId}:${userId}`,
+            setTimeout(async () => {
+              pendingLeaves.delete(`${roomId}:${userId}`);
+
+              try {
+                // They may have come back on a new socket in the meantime
+                const current = await presence.get(roomId, userId);
+                if (current?.socketId !== socket.id) {
+                  return;
+                }
+
+                await removeParticipant(roomId, userId);
+                io.to(roomId).emit("participant-left", { userId, userName });
+              } catch (error) {
+                console.error("Error expiring reconnect grace period:", error);
+              }
+            }, reconnectGraceMs)
+          );
+        } catch (error) {
+          console.error("Error handling disconnect:", error);
         }
-
-        // Update waiting room status and add as participant
-        await prisma.waitingRoom.update({
-          where: { userId_roomId: { userId, roomId } },
-          data: { status: "APPROVED" },
-        });
-
-        await prisma.participant.create({
-          data: { userId, roomId, role: "GUEST" },
-        });
-
-        // Notify the approved user
-        io.to(roomId).emit("waiting-room-approved", { userId });
-      } catch (error) {
-        console.error("Error approving participant:", error);
-        socket.emit("error", { message: "Failed to approve participant" });
       }
     });
-
-    // Handle disconnection
-    socket.on("disconnect", () => {
-      console.log(`User disconnected: ${socket.userId}`);
-
-      // Remove from all rooms they were in
-      roomParticipants.forEach((participants, roomId) => {
-        if (participants.has(socket.userId!)) {
-          participants.delete(socket.userId!);
-
-          // Notify others
-          socket.to(roomId).emit("participant-left", {
-            userId: socket.userId,
-            userName: socket.userName,
-          });
-
-          // Clean up empty rooms
-          if (participants.size === 0) {
-            roomParticipants.delete(roomId);
-          }
-        }
-      });
-    });
   });
 
   return io;
@@ -0,0 +1,21 @@
+import { ModerationSettingsEventSchema, RoomEventSchema } from "../schemas.js";
+import { muteAll, updateModerationSettings } from "../services/moderation.js";
+import { SocketContext } from "./handler.js";
+
+// Room-wide moderation; the same operations are exposed over REST
+export function registerModerationHandlers({ socket, on }: SocketContext) {
+  const { userId } = socket.data;
+
+  on("host-mute-all", RoomEventSchema, "Failed to mute participants", async ({ roomId }) => {
+    await muteAll(roomId, userId);
+  });
+
+  on(
+    "host-update-moderation",
+    ModerationSettingsEventSchema,
+    "Failed to update moderation settings",
+    async ({ roomId, ...changes }) => {
+      return updateModerationSettings(roomId, userId, changes);
+    }
+  );
+}
@@ -0,0 +1,319 @@
+import { createClient } from "redis";
+import type { ParticipantInfo } from "./events.js";
+
+export interface RaisedHand {
+  userId: string;
+  raisedAt: number;
+}
+
+export interface ActiveSpeaker {
+  userId: string;
+  since: number;
+}
+
+// Server-side presence entry; the extra fields never leave the backend
+export interface RoomParticipant extends ParticipantInfo {
+  socketId: string;
+  // Smoothed speech state published by the node that receives this user's audio levels
+  isSpeaking?: boolean;
+  audioLevel?: number;
+}
+
+// What else of a user's room state went with them when they were removed
+export interface RemovedParticipantState {
+  wasPresenter: boolean;
+  hadRaisedHand: boolean;
+  wasActiveSpeaker: boolean;
+}
+
+// Live "who is in which room" state. Kept behind an interface so several backend
+// instances can share it; every method is async for the networked implementations.
+export interface PresenceStore {
+  get(roomId: string, userId: string): Promise<RoomParticipant | null>;
+  list(roomId: string): Promise<RoomParticipant[]>;
+  set(roomId: string, participant: RoomParticipant): Promise<void>;
+  update(roomId: string, userId: string, changes: Partial<RoomParticipant>): Promise<RoomParticipant | null>;
+  // Also gives up the user's presenter slot, raised hand and active-speaker spot
+  remove(roomId: string, userId: string): Promise<RemovedParticipantState>;
+
+  // At most one presenter per room. A normal claim only succeeds if nobody else is
+  // presenting; a takeover replaces whoever is. `previous` is the presenter before the call.
+  getPresenter(roomId: string): Promise<string | null>;
+  claimPresenter(roomId: string, userId: string, takeover: boolean): Promise<{ claimed: boolean; previous: string | null }>;
+  // Only releases if `userId` is still the presenter; resolves to whether it was
+  releasePresenter(roomId: string, userId: string): Promise<boolean>;
+
+  // Raised hands in the order they went up. Raising twice keeps the original place.
+  getHandQueue(roomId: string): Promise<RaisedHand[]>;
+  raiseHand(roomId: string, userId: string): Promise<void>;
+  // Resolves to whether the user had a hand raised
+  lowerHand(roomId: string, userId: string): Promise<boolean>;
+  clearHandQueue(roomId: string): Promise<void>;
+
+  getActiveSpeaker(roomId: string): Promise<ActiveSpeaker | null>;
+  setActiveSpeaker(roomId: string, speaker: ActiveSpeaker | null): Promise<void>;
+}
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+// Single-process store; only correct when running one backend instance
+export function createMemoryPresenceStore(): PresenceStore {
+  const rooms = new Map<string, Map<string, RoomParticipant>>();
+  const presenters = new Map<string, string>();
+  const handQueues = new Map<string, RaisedHand[]>();
+  const activeSpeakers = new Map<string, ActiveSpeaker>();
+
+  return {
+    async get(roomId, userId) {
+      return rooms.get(roomId)?.get(userId) ?? null;
+    },
+
+    async list(roomId) {
+      return Array.from(rooms.get(roomId)?.values() ?? []);
+    },
+
+    async set(roomId, participant) {
+      if (!rooms.has(roomId)) {
+        rooms.set(roomId, new Map());
+      }
+      rooms.get(roomId)!.set(participant.userId, participant);
+    },
+
+    async update(roomId, userId, changes) {
+      const participant = rooms.get(roomId)?.get(userId);
+      if (!participant) return null;
+
+      const updated = { ...participant, ...changes };
+      rooms.get(roomId)!.set(userId, updated);
+      return updated;
+    },
+
+    async remove(roomId, userId) {
+      const wasPresenter = presenters.get(roomId) === userId;
+      if (wasPresenter) presenters.delete(roomId);
+
+      const queue = handQueues.get(roomId) ?? [];
+      const hadRaisedHand = queue.some((hand) => hand.userId === userId);
+      if (hadRaisedHand) handQueues.set(roomId, queue.filter((hand) => hand.userId !== userId));
+
+      const wasActiveSpeaker = activeSpeakers.get(roomId)?.userId === userId;
+      if (wasActiveSpeaker) activeSpeakers.delete(roomId);
+
+      const participants = rooms.get(roomId);
+      participants?.delete(userId);
+
+      // Clean up empty rooms
+      if (!participants || participants.size === 0) {
+        rooms.delete(roomId);
+        presenters.delete(roomId);
+        handQueues.delete(roomId);
+        activeSpeakers.delete(roomId);
+      }
+      return { wasPresenter, hadRaisedHand, wasActiveSpeaker };
+    },
+
+    async getPresenter(roomId) {
+      return presenters.get(roomId) ?? null;
+    },
+
+    async claimPresenter(roomId, userId, takeover) {
+      const previous = presenters.get(roomId) ?? null;
+      if (previous && previous !== userId && !takeover) {
+        return { claimed: false, previous };
+      }
+      presenters.set(roomId, userId);
+      return { claimed: true, previous };
+    },
+
+    async releasePresenter(roomId, userId) {
+      if (presenters.get(roomId) !== userId) return false;
+      presenters.delete(roomId);
+      return true;
+    },
+
+    async getHandQueue(roomId) {
+      return [...(handQueues.get(roomId) ?? [])];
+    },
+
+    async raiseHand(roomId, userId) {
+      const queue = handQueues.get(roomId) ?? [];
+      if (!queue.some((hand) => hand.userId === userId)) {
+        queue.push({ userId, raisedAt: Date.now() });
+      }
+      handQueues.set(roomId, queue);
+    },
+
+    async lowerHand(roomId, userId) {
+      const queue = handQueues.get(roomId) ?? [];
+      const remaining = queue.filter((hand) => hand.userId !== userId);
+      handQueues.set(roomId, remaining);
+      return remaining.length !== queue.length;
+    },
+
+    async clearHandQueue(roomId) {
+      handQueues.delete(roomId);
+    },
+
+    async getActiveSpeaker(roomId) {
+      return activeSpeakers.get(roomId) ?? null;
+    },
+
+    async setActiveSpeaker(roomId, speaker) {
+      if (speaker) {
+        activeSpeakers.set(roomId, speaker);
+      } else {
+        activeSpeakers.delete(roomId);
+      }
+    },
+  };
+}
+
+// Rooms are stored as one hash per room (field = user id, value = JSON). The key
+// expires after a day without writes so a crashed cluster can't leave ghosts forever.
+const PRESENCE_TTL_SECONDS = 24 * 60 * 60;
+
+const roomKey = (roomId: string) => `presence:room:${roomId}`;
+const presenterKey = (roomId: string) => `presence:room:${roomId}:presenter`;
+// Sorted set scored by the time the hand went up
+const handsKey = (roomId: string) => `presence:room:${roomId}:hands`;
+const speakerKey = (roomId: string) => `presence:room:${roomId}:speaker`;
+
+// Compare-and-delete, so a stale release can't clear someone else's claim
+const RELEASE_IF_OWNER_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0`;
+
+// The conditional half of remove: drops the presenter and active-speaker keys if
+// they belong to the user, and every room key once the hash is empty. Returns
+// whether the user was the presenter and the active speaker.
+const REMOVE_PARTICIPANT_SCRIPT = `
+local presenter = 0
+if redis.call("GET", KEYS[2]) == ARGV[1] then
+  presenter = redis.call("DEL", KEYS[2])
+end
+local speaker = 0
+local current = redis.call("GET", KEYS[4])
+if current and cjson.decode(current).userId == ARGV[1] then
+  speaker = redis.call("DEL", KEYS[4])
+end
+if redis.call("EXISTS", KEYS[1]) == 0 then
+  redis.call("DEL", KEYS[2], KEYS[3], KEYS[4])
+end
+return { presenter, speaker }`;
+
+export function createRedisPresenceStore(client: RedisClient): PresenceStore {
+  const get = async (roomId: string, userId: string): Promise<RoomParticipant | null> => {
+    const raw = await client.hGet(roomKey(roomId), userId);
+    return raw ? (JSON.parse(raw) as RoomParticipant) : null;
+  };
+
+  const set = async (roomId: string, participant: RoomParticipant) => {
+    await client
+      .multi()
+      .hSet(roomKey(roomId), participant.userId, JSON.stringify(participant))
+      .expire(roomKey(roomId), PRESENCE_TTL_SECONDS)
+      .exec();
+  };
+
+  return {
+    get,
+    set,
+
+    async list(roomId) {
+      const values = await client.hVals(roomKey(roomId));
+      return values.map((raw) => JSON.parse(raw) as RoomParticipant);
+    },
+
+    // Read-modify-write is fine here: a participant's entry is only written by
+    // their own socket or by a host action, never concurrently in practice.
+    async update(roomId, userId, changes) {
+      const participant = await get(roomId, userId);
+      if (!participant) return null;
+
+      const updated = { ...participant, ...changes };
+      await set(roomId, updated);
+      return updated;
+    },
+
+    // One MULTI, so other nodes never see the user gone but still presenting
+    async remove(roomId, userId) {
+      const [, handsRemoved, cleared] = (await client
+        .multi()
+        .hDel(roomKey(roomId), userId)
+        .zRem(handsKey(roomId), userId)
+        .eval(REMOVE_PARTICIPANT_SCRIPT, {
+          keys: [roomKey(roomId), presenterKey(roomId), handsKey(roomId), speakerKey(roomId)],
+          arguments: [userId],
+        })
+        .exec()) as unknown as [number, number, [number, number]];
+
+      return { wasPresenter: cleared[0] === 1, hadRaisedHand: handsRemoved > 0, wasActiveSpeaker: cleared[1] === 1 };
+    },
+
+    async getPresenter(roomId) {
+      return client.get(presenterKey(roomId));
+    },
+
+    async claimPresenter(roomId, userId, takeover) {
+      const key = presenterKey(roomId);
+
+      if (takeover) {
+        const previous = await client.set(key, userId, { GET: true, EX: PRESENCE_TTL_SECONDS });
+        return { claimed: true, previous };
+      }
+
+      const result = await client.set(key, userId, { NX: true, EX: PRESENCE_TTL_SECONDS });
+      if (result === "OK") {
+        return { claimed: true, previous: null };
+      }
+
+      // Already claimed: succeed only if it is ours
+      const current = await client.get(key);
+      return { claimed: current === userId, previous: current };
+    },
+
+    async releasePresenter(roomId, userId) {
+      const deleted = await client.eval(RELEASE_IF_OWNER_SCRIPT, {
+        keys: [presenterKey(roomId)],
+        arguments: [userId],
+      });
+      return deleted === 1;
+    },
+
+    async getHandQueue(roomId) {
+      const entries = await client.zRangeWithScores(handsKey(roomId), 0, -1);
+      return entries.map(({ value, score }) => ({ userId: value, raisedAt: score }));
+    },
+
+    async raiseHand(roomId, userId) {
+      await client
+        .multi()
+        .zAdd(handsKey(roomId), { score: Date.now(), value: userId }, { NX: true })
+        .expire(handsKey(roomId), PRESENCE_TTL_SECONDS)
+        .exec();
+    },
+
+    async lowerHand(roomId, userId) {
+      return (await client.zRem(handsKey(roomId), userId)) > 0;
+    },
+
+    async clearHandQueue(roomId) {
+      await client.del(handsKey(roomId));
+    },
+
+    async getActiveSpeaker(roomId) {
+      const raw = await client.get(speakerKey(roomId));
+      return raw ? (JSON.parse(raw) as ActiveSpeaker) : null;
+    },
+
+    async setActiveSpeaker(roomId, speaker) {
+      if (speaker) {
+        await client.set(speakerKey(roomId), JSON.stringify(speaker), { EX: PRESENCE_TTL_SECONDS });
+      } else {
+        await client.del(speakerKey(roomId));
+      }
+    },
+  };
+}
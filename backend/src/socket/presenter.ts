@@ -0,0 +1,74 @@
+import prisma from "../db.js";
+import { RoomEventSchema } from "../schemas.js";
+import { can } from "../services/permissions.js";
+import { SocketContext, SocketEventError } from "./handler.js";
+
+// Screen sharing. The participant sharing their screen is the room's presenter,
+// and there is at most one; the host and co-hosts can take the floor from anyone.
+export function registerPresenterHandlers({ io, socket, on, presence }: SocketContext) {
+  const { userId, userName } = socket.data;
+
+  const requireParticipant = async (roomId: string) => {
+    const participant = await presence.get(roomId, userId);
+    if (!participant) {
+      throw new SocketEventError("NOT_IN_ROOM", "You are not in this room");
+    }
+    return participant;
+  };
+
+  const startSharing = async (roomId: string) => {
+    await presence.update(roomId, userId, { isScreenSharing: true });
+    io.to(roomId).emit("screen-share-started", { userId, userName });
+    io.to(roomId).emit("presenter-changed", { roomId, presenterId: userId });
+  };
+
+  on("start-screen-share", RoomEventSchema, "Failed to start screen share", async ({ roomId }) => {
+    const participant = await requireParticipant(roomId);
+
+    if (!can(participant.role, "screen-share:bypass-guest-setting")) {
+      const room = await prisma.room.findUnique({ where: { id: roomId } });
+      if (!room?.guestScreenShare) {
+        throw new SocketEventError("FORBIDDEN", "Only the host can share their screen in this room");
+      }
+    }
+
+    const { claimed, previous } = await presence.claimPresenter(roomId, userId, false);
+    if (!claimed) {
+      const presenter = previous ? await presence.get(roomId, previous) : null;
+      throw new SocketEventError("CONFLICT", `${presenter?.userName ?? "Someone"} is already presenting`);
+    }
+
+    await startSharing(roomId);
+  });
+
+  on("stop-screen-share", RoomEventSchema, "Failed to stop screen share", async ({ roomId }) => {
+    await requireParticipant(roomId);
+
+    // Only the presenter can stop; anyone else would blank the real presenter's share
+    // for everybody. Someone whose floor was taken has already been announced as stopped.
+    if (!(await presence.releasePresenter(roomId, userId))) {
+      throw new SocketEventError("CONFLICT", "You are not presenting");
+    }
+
+    await presence.update(roomId, userId, { isScreenSharing: false });
+    io.to(roomId).emit("screen-share-stopped", { userId });
+    io.to(roomId).emit("presenter-changed", { roomId, presenterId: null });
+  });
+
+  on("host-take-floor", RoomEventSchema, "Failed to take the floor", async ({ roomId }) => {
+    const participant = await requireParticipant(roomId);
+    if (!can(participant.role, "screen-share:take-floor")) {
+      throw new SocketEventError("FORBIDDEN", "Only the host or a co-host can take the floor");
+    }
+
+    const { previous } = await presence.claimPresenter(roomId, userId, true);
+
+    // The previous presenter's client stops its screen track when it sees stoppedBy
+    if (previous && previous !== userId) {
+      await presence.update(roomId, previous, { isScreenSharing: false });
+      io.to(roomId).emit("screen-share-stopped", { userId: previous, stoppedBy: userName });
+    }
+
+    await startSharing(roomId);
+  });
+}
@@ -0,0 +1,16 @@
+import { RoomEventSchema } from "../schemas.js";
+import { startRecordingSession, stopRecordingSession } from "../services/recordingSessions.js";
+import { SocketContext } from "./handler.js";
+
+// The host or a co-host starts and stops takes; every participant records their own track
+export function registerRecordingHandlers({ socket, on }: SocketContext) {
+  const { userId } = socket.data;
+
+  on("host-start-recording", RoomEventSchema, "Failed to start recording", async ({ roomId }) => {
+    return startRecordingSession(roomId, userId);
+  });
+
+  on("host-stop-recording", RoomEventSchema, "Failed to stop recording", async ({ roomId }) => {
+    return stopRecordingSession(roomId, userId);
+  });
+}
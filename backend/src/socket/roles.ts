@@ -0,0 +1,16 @@
+import { SetParticipantRoleEventSchema, TargetParticipantEventSchema } from "../schemas.js";
+import { setParticipantRole, transferHost } from "../services/roles.js";
+import { SocketContext } from "./handler.js";
+
+// Co-host promotion and host transfer; the same operations are exposed over REST
+export function registerRoleHandlers({ socket, on }: SocketContext) {
+  const { userId } = socket.data;
+
+  on("host-set-role", SetParticipantRoleEventSchema, "Failed to change role", async ({ roomId, targetUserId, role }) => {
+    await setParticipantRole(roomId, userId, targetUserId, role);
+  });
+
+  on("host-transfer", TargetParticipantEventSchema, "Failed to transfer host", async ({ roomId, targetUserId }) => {
+    await transferHost(roomId, userId, targetUserId);
+  });
+}
@@ -0,0 +1,179 @@
+import prisma from "../db.js";
+import { AudioLevelEventSchema } from "../schemas.js";
+import { AppServer, SocketContext, SocketEventError } from "./handler.js";
+import type { PresenceStore } from "./presence.js";
+
+// Samples arriving faster than this are dropped; clients should send ~4-10 per second
+const MIN_SAMPLE_INTERVAL_MS = 100;
+// Exponential moving average weight of the newest sample
+const SMOOTHING = 0.3;
+// Hysteresis: start speaking above ON, stop only after staying below OFF for RELEASE_MS,
+// so the pauses between words don't flap the state
+const SPEAKING_ON_LEVEL = 0.12;
+const SPEAKING_OFF_LEVEL = 0.06;
+const SPEAKING_RELEASE_MS = 600;
+// Only republish the level of an ongoing speaker when it moved this much
+const LEVEL_PUBLISH_DELTA = 0.05;
+// The active speaker keeps the floor at least this long unless they go quiet
+const ACTIVE_SPEAKER_MIN_HOLD_MS = 1500;
+// A challenger has to be this much louder to take over before then
+const ACTIVE_SPEAKER_SWITCH_MARGIN = 0.05;
+
+interface SpeechSample {
+  level: number;
+  isSpeaking: boolean;
+  // Whether the state differs enough from what was last published
+  changed: boolean;
+  // Set when a speaking stretch just ended
+  spokeForMs?: number;
+}
+
+// Per-participant smoothing and hysteresis. Every sample from one participant
+// arrives on their own socket, so this state never has to be shared between nodes.
+function createSpeechTracker() {
+  let lastSampleAt = 0;
+  let level = 0;
+  let isSpeaking = false;
+  let speakingSince = 0;
+  let quietSince: number | null = null;
+  let publishedLevel = 0;
+
+  return {
+    push(sample: number, now: number): SpeechSample | null {
+      if (now - lastSampleAt < MIN_SAMPLE_INTERVAL_MS) {
+        return null;
+      }
+      lastSampleAt = now;
+      level = SMOOTHING * sample + (1 - SMOOTHING) * level;
+
+      let spokeForMs: number | undefined;
+      const wasSpeaking = isSpeaking;
+
+      if (!isSpeaking && level >= SPEAKING_ON_LEVEL) {
+        isSpeaking = true;
+        speakingSince = now;
+        quietSince = null;
+      } else if (isSpeaking && level < SPEAKING_OFF_LEVEL) {
+        quietSince ??= now;
+        if (now - quietSince >= SPEAKING_RELEASE_MS) {
+          isSpeaking = false;
+          spokeForMs = quietSince - speakingSince;
+        }
+      } else if (isSpeaking) {
+        quietSince = null;
+      }
+
+      const changed = wasSpeaking !== isSpeaking || (isSpeaking && Math.abs(level - publishedLevel) >= LEVEL_PUBLISH_DELTA);
+      if (changed) {
+        publishedLevel = level;
+      }
+
+      return { level, isSpeaking, changed, spokeForMs };
+    },
+
+    // Ends the current speaking stretch (participant left) and returns its length
+    stop(now: number): number {
+      if (!isSpeaking) return 0;
+      isSpeaking = false;
+      return (quietSince ?? now) - speakingSince;
+    },
+  };
+}
+
+async function addSpeakingTime(roomId: string, userId: string, ms: number) {
+  if (ms <= 0) return;
+
+  await prisma.speakingTime.upsert({
+    where: { userId_roomId: { userId, roomId } },
+    update: { totalMs: { increment: Math.round(ms) } },
+    create: { userId, roomId, totalMs: Math.round(ms) },
+  });
+}
+
+// Picks the room's active speaker from the published per-participant states. The
+// loudest current speaker wins, with a minimum hold time and a loudness margin so
+// crosstalk doesn't make the layout jump around. During silence the last speaker stays.
+export async function updateActiveSpeaker(io: AppServer, presence: PresenceStore, roomId: string, now = Date.now()) {
+  const [participants, current] = await Promise.all([presence.list(roomId), presence.getActiveSpeaker(roomId)]);
+
+  const speakers = participants
+    .filter((participant) => participant.isSpeaking && participant.status === "connected")
+    .sort((a, b) => (b.audioLevel ?? 0) - (a.audioLevel ?? 0));
+  const loudest = speakers[0];
+  const currentEntry = current ? participants.find((participant) => participant.userId === current.userId) : undefined;
+
+  let nextUserId: string | null;
+  if (!loudest) {
+    nextUserId = currentEntry ? currentEntry.userId : null;
+  } else if (currentEntry?.isSpeaking && loudest.userId !== currentEntry.userId) {
+    const held = now - current!.since;
+    const louderBy = (loudest.audioLevel ?? 0) - (currentEntry.audioLevel ?? 0);
+    nextUserId = held < ACTIVE_SPEAKER_MIN_HOLD_MS || louderBy < ACTIVE_SPEAKER_SWITCH_MARGIN ? currentEntry.userId : loudest.userId;
+  } else {
+    nextUserId = loudest.userId;
+  }
+
+  if (nextUserId === (current?.userId ?? null)) {
+    return;
+  }
+
+  await presence.setActiveSpeaker(roomId, nextUserId ? { userId: nextUserId, since: now } : null);
+  io.to(roomId).emit("active-speaker-changed", { roomId, userId: nextUserId });
+}
+
+export function registerSpeakerHandlers({ io, socket, on, presence }: SocketContext) {
+  const { userId } = socket.data;
+  const trackers = new Map<string, ReturnType<typeof createSpeechTracker>>();
+
+  // Called when this socket leaves a room (or disconnects) so an unfinished
+  // speaking stretch is still counted
+  const flush = async (roomId: string) => {
+    const tracker = trackers.get(roomId);
+    if (!tracker) return;
+
+    trackers.delete(roomId);
+    await addSpeakingTime(roomId, userId, tracker.stop(Date.now()));
+  };
+
+  on("audio-level", AudioLevelEventSchema, "Failed to process audio level", async ({ roomId, level }) => {
+    const now = Date.now();
+
+    let tracker = trackers.get(roomId);
+    if (!tracker) {
+      if (!(await presence.get(roomId, userId))) {
+        throw new SocketEventError("NOT_IN_ROOM", "You are not in this room");
+      }
+      tracker = createSpeechTracker();
+      trackers.set(roomId, tracker);
+    }
+
+    const sample = tracker.push(level, now);
+    if (!sample) return;
+
+    if (sample.spokeForMs) {
+      await addSpeakingTime(roomId, userId, sample.spokeForMs);
+    }
+    if (!sample.changed) return;
+
+    const participant = await presence.update(roomId, userId, { isSpeaking: sample.isSpeaking, audioLevel: sample.level });
+    if (!participant) {
+      // Removed by the host while still sending levels
+      await flush(roomId);
+      throw new SocketEventError("NOT_IN_ROOM", "You are not in this room");
+    }
+
+    await updateActiveSpeaker(io, presence, roomId, now);
+  });
+
+  socket.on("disconnecting", async () => {
+    for (const roomId of Array.from(trackers.keys())) {
+      try {
+        await flush(roomId);
+      } catch (error) {
+        console.error("Error saving speaking time:", error);
+      }
+    }
+  });
+
+  return { flush };
+}
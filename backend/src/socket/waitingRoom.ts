@@ -0,0 +1,30 @@
+import { RoomEventSchema, WaitingParticipantEventSchema } from "../schemas.js";
+import { admitAllWaitingUsers, approveWaitingUser, rejectWaitingUser } from "../services/waitingRoom.js";
+import { SocketContext } from "./handler.js";
+
+// Waiting room decisions for the host and co-hosts; the same operations are exposed over REST
+export function registerWaitingRoomHandlers({ socket, on }: SocketContext) {
+  const { userId } = socket.data;
+
+  on(
+    "approve-waiting-participant",
+    WaitingParticipantEventSchema,
+    "Failed to approve participant",
+    async ({ roomId, userId: waitingUserId }) => {
+      await approveWaitingUser(roomId, userId, waitingUserId);
+    }
+  );
+
+  on(
+    "reject-waiting-participant",
+    WaitingParticipantEventSchema,
+    "Failed to reject participant",
+    async ({ roomId, userId: waitingUserId }) => {
+      await rejectWaitingUser(roomId, userId, waitingUserId);
+    }
+  );
+
+  on("admit-all-waiting", RoomEventSchema, "Failed to admit waiting participants", async ({ roomId }) => {
+    return admitAllWaitingUsers(roomId, userId);
+  });
+}
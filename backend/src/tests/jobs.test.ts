@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import prisma from "../db.js";
+import { PermanentJobError, storeJobOutput } from "../services/jobs.js";
+import { getLocalStorage } from "../services/storage.js";
+
+let root: string;
+// What each recording.findUnique call answers, in order
+let lookups: ({ deletedAt: Date | null } | null)[];
+
+before(async () => {
+  root = await mkdtemp(path.join(tmpdir(), "jobs-test-"));
+  process.env.STORAGE_DRIVER = "local";
+  process.env.STORAGE_DIR = path.join(root, "store");
+  Object.defineProperty(prisma, "recording", {
+    value: { findUnique: async () => lookups.shift() ?? null },
+    configurable: true,
+  });
+});
+
+after(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+async function jobOutput(name: string) {
+  const filePath = path.join(root, name);
+  await writeFile(filePath, "job output");
+  return filePath;
+}
+
+describe("storeJobOutput", () => {
+  it("stores the file for a recording that is still there", async () => {
+    lookups = [{ deletedAt: null }, { deletedAt: null }];
+    await storeJobOutput("rec1", "recordings/rec1/poster.jpg", await jobOutput("poster"), "image/jpeg");
+    assert.equal(existsSync(getLocalStorage()!.resolve("recordings/rec1/poster.jpg")), true);
+  });
+
+  it("stores nothing once deletion has started", async () => {
+    lookups = [{ deletedAt: new Date() }];
+    await assert.rejects(
+      storeJobOutput("rec2", "recordings/rec2/poster.jpg", await jobOutput("late"), "image/jpeg"),
+      PermanentJobError
+    );
+    assert.equal(existsSync(getLocalStorage()!.resolve("recordings/rec2/poster.jpg")), false);
+  });
+
+  it("removes the file again when the recording was deleted during the upload", async () => {
+    lookups = [{ deletedAt: null }, null];
+    await assert.rejects(
+      storeJobOutput("rec3", "recordings/rec3/processed.mp4", await jobOutput("racing"), "video/mp4"),
+      PermanentJobError
+    );
+    assert.equal(existsSync(getLocalStorage()!.resolve("recordings/rec3/processed.mp4")), false);
+  });
+});
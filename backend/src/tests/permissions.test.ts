@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Prisma } from "@prisma/client";
+import { can, getRoomRole } from "../services/permissions.js";
+
+const room = { id: "room1", hostId: "host" };
+
+// Just the two lookups getRoomRole makes
+function fakeDb(participant: { role: string; leftAt: Date | null } | null, banned = false) {
+  return {
+    participant: { findUnique: async () => participant },
+    roomBan: { findUnique: async () => (banned ? { userId: "user" } : null) },
+  } as unknown as Prisma.TransactionClient;
+}
+
+describe("getRoomRole", () => {
+  it("takes the host from the room", async () => {
+    assert.equal(await getRoomRole(room, "host", fakeDb(null)), "HOST");
+  });
+
+  it("gives current participants their role", async () => {
+    assert.equal(await getRoomRole(room, "user", fakeDb({ role: "CO_HOST", leftAt: null })), "CO_HOST");
+    assert.equal(await getRoomRole(room, "user", fakeDb({ role: "GUEST", leftAt: null })), "GUEST");
+  });
+
+  it("gives no role to users who never joined", async () => {
+    assert.equal(await getRoomRole(room, "user", fakeDb(null)), null);
+  });
+
+  it("gives a removed co-host no role, and no co-host rights", async () => {
+    const role = await getRoomRole(room, "user", fakeDb({ role: "CO_HOST", leftAt: new Date() }));
+    assert.equal(role, null);
+    assert.equal(can(role, "participants:ban"), false);
+    assert.equal(can(role, "recording:manage"), false);
+  });
+
+  it("gives a banned co-host no role, even before they are marked as gone", async () => {
+    const role = await getRoomRole(room, "user", fakeDb({ role: "CO_HOST", leftAt: null }, true));
+    assert.equal(role, null);
+    assert.equal(can(role, "participants:ban"), false);
+  });
+
+  it("treats a stale HOST row as a guest", async () => {
+    assert.equal(await getRoomRole(room, "user", fakeDb({ role: "HOST", leftAt: null })), "GUEST");
+  });
+});
@@ -0,0 +1,179 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import express from "express";
+import { sendPlaylist, sendStoredMedia } from "../routes/media.js";
+import { HLS_FILE_NAME, hlsFileKey } from "../services/hls.js";
+import {
+  getPlaybackUrls,
+  playbackQuery,
+  playbackSignatureOf,
+  signPlaylist,
+  verifyPlayback,
+} from "../services/playback.js";
+import { createLocalStorage } from "../services/storage.js";
+
+const MEDIA = "0123456789abcdefghij";
+const PLAYLIST = [
+  "#EXTM3U",
+  "#EXT-X-VERSION:7",
+  '#EXT-X-MAP:URI="init.mp4"',
+  "#EXTINF:6.000000,",
+  "seg00000.m4s",
+  "#EXTINF:4.000000,",
+  "seg00001.m4s",
+  "#EXT-X-ENDLIST",
+  "",
+].join("\n");
+
+let root: string;
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  root = await mkdtemp(path.join(tmpdir(), "playback-test-"));
+  const storage = createLocalStorage(root);
+  await writeFile(path.join(root, "media"), MEDIA);
+  await writeFile(path.join(root, "index.m3u8"), PLAYLIST);
+
+  const app = express();
+  app.get("/media", (req, res) => sendStoredMedia(req, res, storage, "media", "video/mp4"));
+  app.get("/missing", (req, res) => sendStoredMedia(req, res, storage, "missing", "video/mp4"));
+  app.get("/playlist", (_req, res) =>
+    sendPlaylist(res, storage, "index.m3u8", (playlist) => signPlaylist(playlist, "expires=1&signature=abc"))
+  );
+
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, "127.0.0.1", () => resolve());
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await rm(root, { recursive: true, force: true });
+});
+
+describe("sendStoredMedia", () => {
+  it("sends the whole file without a Range header", async () => {
+    const response = await fetch(`${baseUrl}/media`);
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("accept-ranges"), "bytes");
+    assert.equal(response.headers.get("content-length"), String(MEDIA.length));
+    assert.equal(await response.text(), MEDIA);
+  });
+
+  it("answers a single range with 206 and that part of the file", async () => {
+    const response = await fetch(`${baseUrl}/media`, { headers: { Range: "bytes=5-9" } });
+    assert.equal(response.status, 206);
+    assert.equal(response.headers.get("content-range"), `bytes 5-9/${MEDIA.length}`);
+    assert.equal(response.headers.get("content-length"), "5");
+    assert.equal(await response.text(), "56789");
+  });
+
+  it("answers an open-ended range up to the end of the file", async () => {
+    const response = await fetch(`${baseUrl}/media`, { headers: { Range: "bytes=15-" } });
+    assert.equal(response.status, 206);
+    assert.equal(response.headers.get("content-range"), `bytes 15-19/${MEDIA.length}`);
+    assert.equal(await response.text(), "fghij");
+  });
+
+  it("rejects a range past the end of the file with 416", async () => {
+    const response = await fetch(`${baseUrl}/media`, { headers: { Range: "bytes=100-200" } });
+    assert.equal(response.status, 416);
+    assert.equal(response.headers.get("content-range"), `bytes */${MEDIA.length}`);
+  });
+
+  it("sends the whole file for several ranges at once", async () => {
+    const response = await fetch(`${baseUrl}/media`, { headers: { Range: "bytes=0-1,10-11" } });
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("content-range"), null);
+    assert.equal(await response.text(), MEDIA);
+  });
+
+  it("answers HEAD with the headers and no body", async () => {
+    const response = await fetch(`${baseUrl}/media`, { method: "HEAD", headers: { Range: "bytes=0-3" } });
+    assert.equal(response.status, 206);
+    assert.equal(response.headers.get("content-length"), "4");
+    assert.equal(response.headers.get("content-range"), `bytes 0-3/${MEDIA.length}`);
+    assert.equal(await response.text(), "");
+  });
+
+  it("answers 404 for a missing file", async () => {
+    const response = await fetch(`${baseUrl}/missing`);
+    assert.equal(response.status, 404);
+  });
+});
+
+describe("HLS file names", () => {
+  const recording = { id: "rec1", hlsKey: "recordings/rec1/hls/index.m3u8" };
+
+  it("maps the files packaging writes into the rendition", () => {
+    assert.equal(hlsFileKey(recording, "index.m3u8"), "recordings/rec1/hls/index.m3u8");
+    assert.equal(hlsFileKey(recording, "init.mp4"), "recordings/rec1/hls/init.mp4");
+    assert.equal(hlsFileKey(recording, "seg00042.m4s"), "recordings/rec1/hls/seg00042.m4s");
+  });
+
+  it("rejects anything else, including paths out of the rendition", () => {
+    for (const file of ["../original", "..%2Foriginal", "../../rec2/original", "seg1.m4s", "index.m3u8.bak", ""]) {
+      assert.equal(HLS_FILE_NAME.test(file), false, file);
+      assert.equal(hlsFileKey(recording, file), null, file);
+    }
+  });
+
+  it("has nothing to serve before the rendition is packaged", () => {
+    assert.equal(hlsFileKey({ ...recording, hlsKey: null }, "index.m3u8"), null);
+  });
+});
+
+describe("playback signatures", () => {
+  const signatureOf = (url: string) => playbackSignatureOf(Object.fromEntries(new URL(url, "http://localhost").searchParams));
+
+  it("signs URLs for the recording they were issued for", () => {
+    const { streamUrl, hlsUrl } = getPlaybackUrls({ id: "rec1", hlsKey: "recordings/rec1/hls/index.m3u8" }, 60);
+    assert.match(streamUrl, /\/api\/recordings\/rec1\/stream\?/);
+    assert.match(hlsUrl!, /\/api\/recordings\/rec1\/hls\/index\.m3u8\?/);
+    assert.equal(verifyPlayback("rec1", signatureOf(streamUrl)), true);
+    assert.equal(verifyPlayback("rec2", signatureOf(streamUrl)), false);
+  });
+
+  it("ties URLs issued through a share link to that link", () => {
+    const signature = signatureOf(getPlaybackUrls({ id: "rec1", hlsKey: null }, 60, "link1").streamUrl);
+    assert.equal(signature.shareLinkId, "link1");
+    assert.equal(verifyPlayback("rec1", signature), true);
+    assert.equal(verifyPlayback("rec1", { ...signature, shareLinkId: "link2" }), false);
+    assert.equal(verifyPlayback("rec1", { ...signature, shareLinkId: undefined }), false);
+  });
+
+  it("has no HLS URL before the rendition is packaged", () => {
+    assert.equal(getPlaybackUrls({ id: "rec1", hlsKey: null }, 60).hlsUrl, null);
+  });
+
+  it("rejects expired and tampered signatures", () => {
+    const expired = signatureOf(getPlaybackUrls({ id: "rec1", hlsKey: null }, -1).streamUrl);
+    assert.equal(verifyPlayback("rec1", expired), false);
+
+    const valid = signatureOf(getPlaybackUrls({ id: "rec1", hlsKey: null }, 60).streamUrl);
+    assert.equal(verifyPlayback("rec1", { ...valid, expires: valid.expires + 3600 }), false);
+    assert.equal(verifyPlayback("rec1", { ...valid, signature: valid.signature.slice(1) }), false);
+    assert.equal(verifyPlayback("rec1", playbackSignatureOf({})), false);
+  });
+
+  it("carries the signature into every URI the playlist names", async () => {
+    const query = playbackQuery({ expires: 1, signature: "abc" });
+    assert.equal(query, "expires=1&signature=abc");
+
+    const response = await fetch(`${baseUrl}/playlist`);
+    assert.match(response.headers.get("content-type") ?? "", /^application\/vnd\.apple\.mpegurl/);
+    const lines = (await response.text()).split("\n");
+    assert.ok(lines.includes(`#EXT-X-MAP:URI="init.mp4?${query}"`));
+    assert.ok(lines.includes(`seg00000.m4s?${query}`));
+    assert.ok(lines.includes(`seg00001.m4s?${query}`));
+    assert.ok(lines.includes("#EXTINF:6.000000,"));
+    assert.ok(lines.includes("#EXT-X-ENDLIST"));
+  });
+});
@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import { before, beforeEach, describe, it } from "node:test";
+import bcrypt from "bcrypt";
+import prisma from "../db.js";
+import { resolveShareLink } from "../services/shareLinks.js";
+
+type Access = { shareLinkId: string; outcome: string; ipAddress?: string; createdAt: Date };
+
+// In-memory stand-ins for the rows resolveShareLink reads and writes
+let link: Record<string, unknown>;
+let accesses: Access[];
+
+const recording = {
+  id: "rec1",
+  fileName: "take.webm",
+  mimeType: "video/webm",
+  duration: 60,
+  storageKey: "recordings/rec1/original",
+  processedKey: null,
+  hlsKey: null,
+  user: { name: "Speaker" },
+};
+
+function stubModel(name: string, methods: Record<string, (args: any) => Promise<unknown>>) {
+  Object.defineProperty(prisma, name, { value: methods, configurable: true });
+}
+
+const visitor = (ipAddress: string) => ({ ipAddress, userAgent: "test" });
+
+before(async () => {
+  stubModel("shareLink", { findUnique: async () => link });
+  stubModel("shareLinkAccess", {
+    count: async ({ where }) =>
+      accesses.filter(
+        (access) =>
+          access.shareLinkId === where.shareLinkId &&
+          access.outcome === where.outcome &&
+          access.createdAt >= where.createdAt.gte &&
+          (where.ipAddress === undefined || access.ipAddress === where.ipAddress)
+      ).length,
+    create: async ({ data }) => {
+      accesses.push({ ...data, createdAt: new Date() });
+      return data;
+    },
+  });
+  stubModel("recording", { findMany: async () => [recording] });
+
+  link = {
+    id: "link1",
+    token: "token",
+    passwordHash: await bcrypt.hash("right", 4),
+    allowDownload: false,
+    expiresAt: null,
+    revokedAt: null,
+    recordingId: recording.id,
+    roomId: null,
+    recording,
+    room: null,
+  };
+});
+
+beforeEach(() => {
+  accesses = [];
+});
+
+describe("share link passwords", () => {
+  it("logs wrong passwords and lets the right one through", async () => {
+    const wrong = await resolveShareLink("token", { password: "wrong", download: false }, visitor("10.0.0.1"));
+    assert.equal(wrong.status, "wrong-password");
+
+    const right = await resolveShareLink("token", { password: "right", download: false }, visitor("10.0.0.1"));
+    assert.equal(right.status, "ok");
+    assert.deepEqual(accesses.map((access) => access.outcome), ["WRONG_PASSWORD", "STREAM"]);
+  });
+
+  it("stops checking passwords from an address after too many wrong ones", async () => {
+    for (let i = 0; i < 5; i++) {
+      await resolveShareLink("token", { password: `guess-${i}`, download: false }, visitor("10.0.0.1"));
+    }
+
+    const blocked = await resolveShareLink("token", { password: "right", download: false }, visitor("10.0.0.1"));
+    assert.equal(blocked.status, "too-many-attempts");
+
+    const elsewhere = await resolveShareLink("token", { password: "right", download: false }, visitor("10.0.0.2"));
+    assert.equal(elsewhere.status, "ok");
+  });
+
+  it("locks the link when guesses come from many addresses", async () => {
+    const since = new Date();
+    for (let i = 0; i < 50; i++) {
+      accesses.push({ shareLinkId: "link1", outcome: "WRONG_PASSWORD", ipAddress: `10.1.0.${i}`, createdAt: since });
+    }
+
+    const blocked = await resolveShareLink("token", { password: "right", download: false }, visitor("10.0.0.3"));
+    assert.equal(blocked.status, "too-many-attempts");
+  });
+
+  it("forgets wrong passwords once they are out of the window", async () => {
+    const longAgo = new Date(Date.now() - 60 * 60 * 1000);
+    for (let i = 0; i < 5; i++) {
+      accesses.push({ shareLinkId: "link1", outcome: "WRONG_PASSWORD", ipAddress: "10.0.0.1", createdAt: longAgo });
+    }
+
+    const opened = await resolveShareLink("token", { password: "right", download: false }, visitor("10.0.0.1"));
+    assert.equal(opened.status, "ok");
+  });
+});
+
+describe("share link expiry", () => {
+  const secondsUntil = (iso: string) => (new Date(iso).getTime() - Date.now()) / 1000;
+
+  it("never hands out a download URL that outlives the link", async () => {
+    const expiresAt = new Date(Date.now() + 60 * 1000);
+    link = { ...link, passwordHash: null, allowDownload: true, expiresAt };
+
+    const resolution = await resolveShareLink("token", { download: true }, visitor("10.0.0.1"));
+    assert.equal(resolution.status, "ok");
+    if (resolution.status !== "ok") return;
+
+    assert.ok(secondsUntil(resolution.data.expiresAt) <= 60);
+    const signed = new URL(resolution.data.recordings[0].url, "http://localhost");
+    assert.ok(Number(signed.searchParams.get("expires")) <= expiresAt.getTime() / 1000);
+  });
+
+  it("refuses a link with less than a second left instead of issuing dead URLs", async () => {
+    link = { ...link, passwordHash: null, allowDownload: true, expiresAt: new Date(Date.now() + 500) };
+    await assert.rejects(resolveShareLink("token", { download: true }, visitor("10.0.0.1")), {
+      code: "FORBIDDEN",
+      message: "This link has expired",
+    });
+  });
+});
@@ -104,6 +104,7 @@ async function testJoinRoom() {
     console.log("Host joined room:", hostRoomData.roomTitle);
     console.log("   Participants:", hostRoomData.participants.length);
     console.log("   Settings:", JSON.stringify(hostRoomData.settings));
+    console.log("   ICE servers:", hostRoomData.iceServers.iceServers.length);
 
     const participantJoinedPromise = waitForEvent<any>(hostSocket, "participant-joined");
 
@@ -112,7 +113,7 @@ async function testJoinRoom() {
     console.log("Guest joined room:", guestRoomData.roomTitle);
 
     const joinedNotification = await participantJoinedPromise;
-    console.log("Host received participant-joined:", joinedNotification.odName);
+    console.log("Host received participant-joined:", joinedNotification.userName);
 }
 
 async function testChatMessage() {
@@ -128,24 +129,198 @@ async function testChatMessage() {
 
     console.log("Host received chat:", hostReceived.message, "from", hostReceived.userName);
     console.log("Guest received chat:", guestReceived.message, "(echo)");
+
+    const history = await httpRequest("GET", `/api/rooms/${roomId}/messages?limit=10`, undefined, hostToken);
+    console.log("Chat history persisted:", history.data.length, "message(s)");
+}
+
+async function testRichChat() {
+    console.log("\n TEST 4: Replies, Reactions, Edits and Direct Messages\n");
+
+    const original = await guestSocket.emitWithAck("chat-message", { roomId, message: "Take 2 starts here" });
+    const reply = await hostSocket.emitWithAck("chat-message", {
+        roomId,
+        message: "Noted",
+        replyToId: original.data.id,
+    });
+    console.log("Host replied to guest message:", reply.data.replyToId === original.data.id);
+
+    const reactionPromise = waitForEvent<any>(guestSocket, "chat-reactions-updated");
+    hostSocket.emit("chat-add-reaction", { roomId, messageId: original.data.id, emoji: "👍" });
+    const reaction = await reactionPromise;
+    console.log("Guest saw reaction:", reaction.reactions[0].emoji);
+
+    const editPromise = waitForEvent<any>(hostSocket, "chat-message-edited");
+    guestSocket.emit("chat-edit-message", { roomId, messageId: original.data.id, message: "Take 3 starts here" });
+    const edited = await editPromise;
+    console.log("Host saw edited message:", edited.message);
+
+    const directPromise = waitForEvent<any>(guestSocket, "chat-message");
+    hostSocket.emit("chat-direct-message", { roomId, recipientId: guestUserId, message: "Fix your mic" });
+    const direct = await directPromise;
+    console.log("Guest received direct message:", direct.message, "- private:", direct.recipientId === guestUserId);
+
+    const deleted = await hostSocket.emitWithAck("chat-delete-message", { roomId, messageId: original.data.id });
+    console.log("Host deleted guest message:", deleted.ok);
 }
 
 async function testMediaToggle() {
-    console.log("\n TEST 4: Media Toggle Events\n");
+    console.log("\n TEST 5: Media Toggle Events\n");
 
     const audioChangePromise = waitForEvent<any>(hostSocket, "participant-audio-changed");
     guestSocket.emit("toggle-audio", { roomId, isMuted: true });
     const audioChange = await audioChangePromise;
-    console.log("Host notified of audio change - muted:", audioChange.odIsMuted);
+    console.log("Host notified of audio change - muted:", audioChange.isMuted);
 
     const videoChangePromise = waitForEvent<any>(hostSocket, "participant-video-changed");
     guestSocket.emit("toggle-video", { roomId, isVideoOff: true });
     const videoChange = await videoChangePromise;
-    console.log("Host notified of video change - off:", videoChange.odIsVideoOff);
+    console.log("Host notified of video change - off:", videoChange.isVideoOff);
+}
+
+async function testPayloadValidation() {
+    console.log("\n TEST 6: Payload Validation and Acknowledgements\n");
+
+    const invalid = await guestSocket.emitWithAck("toggle-audio", { roomId, isMuted: "yes" });
+    console.log("Malformed payload rejected:", invalid.ok === false ? invalid.error.code : "not rejected");
+
+    const valid = await guestSocket.emitWithAck("toggle-audio", { roomId, isMuted: false });
+    console.log("Valid payload acknowledged:", valid.ok);
+}
+
+async function testSignalingRelay() {
+    console.log("\n TEST 7: WebRTC Signaling Relay\n");
+
+    const offerPromise = waitForEvent<any>(guestSocket, "webrtc-offer");
+    hostSocket.emit("webrtc-offer", {
+        roomId,
+        targetUserId: guestUserId,
+        description: { type: "offer", sdp: "v=0\r\n" },
+    });
+    const offer = await offerPromise;
+    console.log("Guest received offer from:", offer.fromUserName, "- polite:", offer.polite);
+
+    const answerPromise = waitForEvent<any>(hostSocket, "webrtc-answer");
+    guestSocket.emit("webrtc-answer", {
+        roomId,
+        targetUserId: hostUserId,
+        description: { type: "answer", sdp: "v=0\r\n" },
+    });
+    const answer = await answerPromise;
+    console.log("Host received answer from:", answer.fromUserId);
+
+    const candidatePromise = waitForEvent<any>(hostSocket, "webrtc-ice-candidate");
+    guestSocket.emit("webrtc-ice-candidate", {
+        roomId,
+        targetUserId: hostUserId,
+        candidate: { candidate: "candidate:1 1 udp 2122260223 10.0.0.1 54400 typ host", sdpMid: "0", sdpMLineIndex: 0 },
+    });
+    await candidatePromise;
+    console.log("Host received ICE candidate");
+
+    const errorPromise = waitForEvent<any>(guestSocket, "error");
+    guestSocket.emit("webrtc-offer", {
+        roomId,
+        targetUserId: "00000000-0000-0000-0000-000000000000",
+        description: { type: "offer", sdp: "v=0\r\n" },
+    });
+    const error = await errorPromise;
+    console.log("Offer to a user outside the room rejected:", error.message);
+}
+
+async function testScreenShare() {
+    console.log("\n TEST 8: Screen Sharing and Presenter State\n");
+
+    const presenterPromise = waitForEvent<any>(hostSocket, "presenter-changed");
+    const started = await guestSocket.emitWithAck("start-screen-share", { roomId });
+    console.log("Guest started screen share:", started.ok);
+    const presenter = await presenterPromise;
+    console.log("Host sees presenter:", presenter.presenterId === guestUserId);
+
+    const blocked = await hostSocket.emitWithAck("start-screen-share", { roomId });
+    console.log("Second presenter rejected:", blocked.ok === false ? blocked.error.code : "not rejected");
+
+    const stoppedPromise = waitForEvent<any>(guestSocket, "screen-share-stopped");
+    await hostSocket.emitWithAck("host-take-floor", { roomId });
+    const stopped = await stoppedPromise;
+    console.log("Guest screen share stopped by:", stopped.stoppedBy);
+
+    const staleStop = await guestSocket.emitWithAck("stop-screen-share", { roomId });
+    console.log("Stop from a non-presenter rejected:", staleStop.ok === false ? staleStop.error.code : "not rejected");
+
+    await hostSocket.emitWithAck("stop-screen-share", { roomId });
+}
+
+async function testRaiseHand() {
+    console.log("\n TEST 9: Raise Hand Queue\n");
+
+    const queuePromise = waitForEvent<any>(hostSocket, "hand-queue-updated");
+    guestSocket.emit("raise-hand", { roomId });
+    const queue = await queuePromise;
+    console.log("Host sees raised hands:", queue.handQueue.map((hand: any) => hand.userName).join(", "));
+
+    const calledOnPromise = waitForEvent<any>(guestSocket, "hand-called-on");
+    hostSocket.emit("host-call-on", { roomId, targetUserId: guestUserId });
+    const calledOn = await calledOnPromise;
+    console.log("Guest called on by:", calledOn.calledBy);
+}
+
+async function testActiveSpeaker() {
+    console.log("\n TEST 10: Active Speaker Detection\n");
+
+    const speakerPromise = waitForEvent<any>(hostSocket, "active-speaker-changed");
+    for (let i = 0; i < 3; i++) {
+        await guestSocket.emitWithAck("audio-level", { roomId, level: 0.8 });
+        await new Promise((resolve) => setTimeout(resolve, 150));
+    }
+    const speaker = await speakerPromise;
+    console.log("Active speaker is guest:", speaker.userId === guestUserId);
+
+    const speakingTime = await httpRequest("GET", `/api/rooms/${roomId}/speaking-time`, undefined, hostToken);
+    console.log("Speaking time entries:", speakingTime.data.length);
+}
+
+async function testCoHostRole() {
+    console.log("\n TEST 11: Co-host Promotion\n");
+
+    const promotedPromise = waitForEvent<any>(guestSocket, "participant-role-changed");
+    await hostSocket.emitWithAck("host-set-role", { roomId, targetUserId: guestUserId, role: "CO_HOST" });
+    const promoted = await promotedPromise;
+    console.log("Guest is now:", promoted.role, "- changed by:", promoted.changedBy);
+
+    const demotedPromise = waitForEvent<any>(guestSocket, "participant-role-changed");
+    await httpRequest("PUT", `/api/rooms/${roomId}/participants/${guestUserId}/role`, { role: "GUEST" }, hostToken);
+    const demoted = await demotedPromise;
+    console.log("Guest is back to:", demoted.role);
+}
+
+async function testModeration() {
+    console.log("\n TEST 12: Room Moderation Settings\n");
+
+    const settingsPromise = waitForEvent<any>(guestSocket, "room-settings-changed");
+    await hostSocket.emitWithAck("host-update-moderation", { roomId, chatMode: "DISABLED", guestUnmute: false });
+    const changed = await settingsPromise;
+    console.log("Guest sees chat mode:", changed.settings.chatMode, "- guest unmute:", changed.settings.guestUnmute);
+
+    const chatAttempt = await guestSocket.emitWithAck("chat-message", { roomId, message: "Anyone there?" });
+    console.log("Guest chat rejected with:", chatAttempt.ok ? "nothing" : chatAttempt.error.code);
+
+    const mutedPromise = waitForEvent<any>(guestSocket, "room-muted-by-host");
+    await hostSocket.emitWithAck("host-mute-all", { roomId });
+    const muted = await mutedPromise;
+    console.log("Guest muted by mute-all:", muted.userIds.includes(guestUserId));
+
+    const muteHost = await hostSocket.emitWithAck("host-mute-participant", { roomId, targetUserId: hostUserId });
+    console.log("Muting the host rejected with:", muteHost.ok ? "nothing" : muteHost.error.code);
+
+    const unmuteAttempt = await guestSocket.emitWithAck("toggle-audio", { roomId, isMuted: false });
+    console.log("Guest unmute rejected with:", unmuteAttempt.ok ? "nothing" : unmuteAttempt.error.code);
+
+    await hostSocket.emitWithAck("host-update-moderation", { roomId, chatMode: "EVERYONE", guestUnmute: true });
 }
 
 async function testHostMuteParticipant() {
-    console.log("\n TEST 5: Host Mute Participant\n");
+    console.log("\n TEST 13: Host Mute Participant\n");
 
     const muteNotificationPromise = waitForEvent<any>(guestSocket, "participant-muted-by-host");
 
@@ -156,27 +331,181 @@ async function testHostMuteParticipant() {
 }
 
 async function testLeaveRoom() {
-    console.log("\n🚶 TEST 6: Leave Room Event\n");
+    console.log("\n🚶 TEST 14: Leave Room Event\n");
+
+    // A newer tab takes over the seat; the old socket leaving must not evict it
+    const newTab = io(SERVER_URL, { auth: { token: guestToken } });
+    await waitForEvent(newTab, "connect");
+    newTab.emit("join-room", { roomId });
+    await waitForEvent<any>(newTab, "room-joined");
+
+    await guestSocket.emitWithAck("leave-room", { roomId });
+    const stillIn = await newTab.emitWithAck("toggle-audio", { roomId, isMuted: true });
+    console.log("New tab still in the room after the old one left:", stillIn.ok);
 
     const leaveNotificationPromise = waitForEvent<any>(hostSocket, "participant-left");
 
-    guestSocket.emit("leave-room", { roomId });
+    newTab.emit("leave-room", { roomId });
 
     const leaveNotification = await leaveNotificationPromise;
     console.log("Host notified of participant left:", leaveNotification.userName);
+    newTab.disconnect();
+}
+
+async function testWaitingRoom() {
+    console.log("\n TEST 15: Waiting Room Knock and Approval\n");
+
+    await httpRequest("PATCH", `/api/rooms/${roomId}`, { waitingRoom: true }, hostToken);
+    await httpRequest("POST", `/api/rooms/${roomId}/leave`, undefined, guestToken);
+
+    const knockPromise = waitForEvent<any>(hostSocket, "waiting-room-knock");
+    const joinResult = await httpRequest("POST", `/api/rooms/${roomId}/join`, undefined, guestToken);
+    console.log("Guest join result:", joinResult.message);
+
+    const knock = await knockPromise;
+    console.log("Host heard a knock from:", knock.userName);
+
+    const approvedPromise = waitForEvent<any>(guestSocket, "waiting-room-approved");
+    await hostSocket.emitWithAck("approve-waiting-participant", { roomId, userId: guestUserId });
+    const approved = await approvedPromise;
+    console.log("Guest approved for room:", approved.roomId === roomId);
+
+    await httpRequest("PATCH", `/api/rooms/${roomId}`, { waitingRoom: false }, hostToken);
 }
 
 async function testDisconnect() {
-    console.log("\n TEST 7: Disconnect Handling\n");
+    console.log("\n TEST 16: Disconnect and Reconnect Handling\n");
 
     guestSocket.emit("join-room", { roomId });
     await waitForEvent<any>(guestSocket, "room-joined");
 
-    const disconnectPromise = waitForEvent<any>(hostSocket, "participant-left");
+    const reconnectingPromise = waitForEvent<any>(hostSocket, "participant-reconnecting");
     guestSocket.disconnect();
 
-    const disconnectNotification = await disconnectPromise;
-    console.log("Host notified of disconnect:", disconnectNotification.userName);
+    const reconnecting = await reconnectingPromise;
+    console.log("Host notified guest is reconnecting:", reconnecting.userName);
+
+    const reconnectedPromise = waitForEvent<any>(hostSocket, "participant-reconnected");
+    guestSocket.connect();
+    await waitForEvent(guestSocket, "connect");
+    guestSocket.emit("join-room", { roomId });
+    await waitForEvent<any>(guestSocket, "room-joined");
+
+    const reconnected = await reconnectedPromise;
+    console.log("Host notified guest reconnected:", reconnected.userName, "- muted:", reconnected.isMuted);
+
+    const leavePromise = waitForEvent<any>(hostSocket, "participant-left");
+    guestSocket.emit("leave-room", { roomId });
+
+    const leaveNotification = await leavePromise;
+    console.log("Host notified of participant left:", leaveNotification.userName);
+}
+
+async function testRecordingSession() {
+    console.log("\n TEST 17: Recording Session, Mid-take Join and Clock Sync\n");
+
+    const started = await hostSocket.emitWithAck("host-start-recording", { roomId });
+    console.log("Take started:", started.data.take, "at", started.data.startedAt);
+
+    const lateStartPromise = waitForEvent<any>(guestSocket, "recording-started");
+    guestSocket.emit("join-room", { roomId });
+    const lateStart = await lateStartPromise;
+    console.log("Late joiner told to record session:", lateStart.sessionId === started.data.sessionId);
+
+    guestSocket.on("clock-ping", (_ping: any, reply: (pong: object) => void) => {
+        const receivedAt = performance.timeOrigin + performance.now();
+        reply({ clientReceivedAt: receivedAt, clientSentAt: performance.timeOrigin + performance.now() });
+    });
+    const sync = await guestSocket.emitWithAck("clock-sync", { roomId });
+    console.log("Guest clock offset:", sync.data.offsetMs.toFixed(2), "ms - rtt:", sync.data.rttMs.toFixed(2), "ms");
+
+    const track = await httpRequest(
+        "POST",
+        "/api/recordings",
+        { fileName: "guest-take.webm", roomId, sessionId: started.data.sessionId },
+        guestToken
+    );
+    const stats = await httpRequest("GET", `/api/recordings/${track.data.id}/clock-sync`, undefined, guestToken);
+    console.log("Clock samples stored for the track:", stats.data.summary.samples);
+
+    const stoppedPromise = waitForEvent<any>(guestSocket, "recording-stopped");
+    await hostSocket.emitWithAck("host-stop-recording", { roomId });
+    const stopped = await stoppedPromise;
+    console.log("Take stopped by:", stopped.stoppedBy);
+
+    const leavePromise = waitForEvent<any>(hostSocket, "participant-left");
+    guestSocket.emit("leave-room", { roomId });
+    await leavePromise;
+}
+
+async function testBan() {
+    console.log("\n TEST 18: Remove with Ban\n");
+
+    guestSocket.emit("join-room", { roomId });
+    await waitForEvent<any>(guestSocket, "room-joined");
+
+    const removedPromise = waitForEvent<any>(guestSocket, "you-were-removed");
+    await hostSocket.emitWithAck("host-remove-participant", { roomId, targetUserId: guestUserId, ban: true });
+    const removed = await removedPromise;
+    console.log("Guest removed - banned:", removed.banned);
+
+    const rejoin = await httpRequest("POST", `/api/rooms/${roomId}/join`, undefined, guestToken);
+    console.log("Banned guest rejoin:", rejoin.message);
+
+    const bans = await httpRequest("GET", `/api/rooms/${roomId}/bans`, undefined, hostToken);
+    console.log("Bans listed:", bans.data.length);
+
+    await httpRequest("DELETE", `/api/rooms/${roomId}/bans/${guestUserId}`, undefined, hostToken);
+    const afterLift = await httpRequest("POST", `/api/rooms/${roomId}/join`, undefined, guestToken);
+    console.log("Rejoin after lifting the ban:", afterLift.message);
+}
+
+async function testShareLinks() {
+    console.log("\n TEST 19: Recording Visibility and Share Links\n");
+
+    const visible = await httpRequest("GET", `/api/recordings/room/${roomId}`, undefined, hostToken);
+    console.log("Recordings the host can see:", visible.data.length);
+
+    const created = await httpRequest(
+        "POST",
+        "/api/shares",
+        { roomId, password: "editor-pass", allowDownload: false },
+        hostToken
+    );
+    const token = created.data.token;
+    console.log("Share link created - password:", created.data.hasPassword);
+
+    const info = await httpRequest("GET", `/api/shares/public/${token}`);
+    console.log("Link needs a password:", info.data.requiresPassword);
+
+    const wrong = await httpRequest("POST", `/api/shares/public/${token}`, { password: "nope" });
+    console.log("Wrong password:", wrong.message);
+
+    const download = await httpRequest("POST", `/api/shares/public/${token}`, {
+        password: "editor-pass",
+        download: true,
+    });
+    console.log("Download on a stream-only link:", download.message);
+
+    const opened = await httpRequest("POST", `/api/shares/public/${token}`, { password: "editor-pass" });
+    console.log("Tracks shared:", opened.data.recordings.length);
+    const streamUrl: string | undefined = opened.data.recordings[0]?.url;
+    if (streamUrl) {
+        console.log("Stream URL is a playback route:", streamUrl.includes("/stream?"));
+        const played = await fetch(new URL(streamUrl, SERVER_URL), { headers: { Range: "bytes=0-0" } });
+        console.log("Shared stream status:", played.status);
+    }
+
+    const log = await httpRequest("GET", `/api/shares/${created.data.id}/accesses`, undefined, hostToken);
+    console.log("Access log:", log.data.map((access: any) => access.outcome).join(", "));
+
+    await httpRequest("DELETE", `/api/shares/${created.data.id}`, undefined, hostToken);
+    const revoked = await httpRequest("POST", `/api/shares/public/${token}`, { password: "editor-pass" });
+    console.log("After revoking:", revoked.message);
+    if (streamUrl) {
+        const stopped = await fetch(new URL(streamUrl, SERVER_URL));
+        console.log("Shared stream after revoking:", stopped.status);
+    }
 }
 
 async function cleanup() {
@@ -198,10 +527,22 @@ async function runTests() {
         await testSocketConnection();
         await testJoinRoom();
         await testChatMessage();
+        await testRichChat();
         await testMediaToggle();
+        await testPayloadValidation();
+        await testSignalingRelay();
+        await testScreenShare();
+        await testRaiseHand();
+        await testActiveSpeaker();
+        await testCoHostRole();
+        await testModeration();
         await testHostMuteParticipant();
         await testLeaveRoom();
+        await testWaitingRoom();
         await testDisconnect();
+        await testRecordingSession();
+        await testBan();
+        await testShareLinks();
 
         console.log("\n" + "=".repeat(50));
         console.log("ALL TESTS PASSED!");
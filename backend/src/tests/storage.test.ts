@@ -0,0 +1,129 @@
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import fs, { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { syncBuiltinESMExports } from "node:module";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it, mock } from "node:test";
+import { createLocalStorage } from "../services/storage.js";
+
+let root: string;
+let storage: ReturnType<typeof createLocalStorage>;
+
+// What the local driver signs into its /api/files URLs
+function signedParts(url: string) {
+  const parsed = new URL(url, "http://localhost");
+  const key = decodeURIComponent(parsed.pathname.replace(/^\/api\/files\//, ""));
+  return {
+    key,
+    expires: Number(parsed.searchParams.get("expires")),
+    name: parsed.searchParams.get("name") ?? "",
+    signature: parsed.searchParams.get("signature") ?? "",
+  };
+}
+
+before(async () => {
+  root = await mkdtemp(path.join(tmpdir(), "storage-test-"));
+  storage = createLocalStorage(path.join(root, "store"));
+});
+
+after(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe("local storage resolve", () => {
+  it("maps keys inside the storage root", () => {
+    assert.equal(storage.resolve("recordings/abc/original"), path.join(root, "store", "recordings", "abc", "original"));
+  });
+
+  it("rejects keys that escape the storage root", () => {
+    assert.throws(() => storage.resolve("../outside"), /escapes the storage root/);
+    assert.throws(() => storage.resolve("recordings/../../outside"), /escapes the storage root/);
+    assert.throws(() => storage.resolve("/etc/passwd"), /escapes the storage root/);
+  });
+
+  it("rejects the root itself", () => {
+    assert.throws(() => storage.resolve(""), /escapes the storage root/);
+  });
+});
+
+describe("local storage signed URLs", () => {
+  it("verifies a URL it signed", async () => {
+    const { key, expires, name, signature } = signedParts(
+      await storage.getSignedUrl("recordings/abc/original", { expiresIn: 60, downloadName: "take.webm" })
+    );
+    assert.equal(key, "recordings/abc/original");
+    assert.equal(storage.verify(key, expires, name, signature), true);
+  });
+
+  it("rejects an expired URL", async () => {
+    const { key, expires, name, signature } = signedParts(
+      await storage.getSignedUrl("recordings/abc/original", { expiresIn: -1 })
+    );
+    assert.equal(storage.verify(key, expires, name, signature), false);
+  });
+
+  it("rejects a tampered signature, key, expiry or file name", async () => {
+    const { key, expires, name, signature } = signedParts(
+      await storage.getSignedUrl("recordings/abc/original", { expiresIn: 60, downloadName: "take.webm" })
+    );
+    const flipped = (signature[0] === "A" ? "B" : "A") + signature.slice(1);
+
+    assert.equal(storage.verify(key, expires, name, flipped), false);
+    assert.equal(storage.verify(key, expires, name, signature.slice(1)), false);
+    assert.equal(storage.verify("recordings/other/original", expires, name, signature), false);
+    assert.equal(storage.verify(key, expires + 3600, name, signature), false);
+    assert.equal(storage.verify(key, expires, "other.webm", signature), false);
+    assert.equal(storage.verify(key, Number.NaN, name, signature), false);
+  });
+});
+
+describe("local storage putFile", () => {
+  it("moves the file into storage", async () => {
+    const source = path.join(root, "upload");
+    await writeFile(source, "recorded bytes");
+
+    await storage.putFile("recordings/abc/moved", source);
+
+    assert.equal(await readFile(storage.resolve("recordings/abc/moved"), "utf8"), "recorded bytes");
+    assert.equal(existsSync(source), false);
+  });
+
+  it("copies and removes the source when rename crosses filesystems", async () => {
+    const source = path.join(root, "cross-device");
+    await writeFile(source, "other filesystem");
+
+    const rename = mock.method(fs, "rename", async () => {
+      throw Object.assign(new Error("EXDEV: cross-device link not permitted"), { code: "EXDEV" });
+    });
+    syncBuiltinESMExports();
+    try {
+      await storage.putFile("recordings/abc/copied", source);
+    } finally {
+      rename.mock.restore();
+      syncBuiltinESMExports();
+    }
+
+    assert.equal(rename.mock.callCount(), 1);
+    assert.equal(await readFile(storage.resolve("recordings/abc/copied"), "utf8"), "other filesystem");
+    assert.equal(existsSync(source), false);
+  });
+
+  it("passes other rename errors on", async () => {
+    const source = path.join(root, "denied");
+    await writeFile(source, "kept");
+
+    const rename = mock.method(fs, "rename", async () => {
+      throw Object.assign(new Error("EACCES: permission denied"), { code: "EACCES" });
+    });
+    syncBuiltinESMExports();
+    try {
+      await assert.rejects(storage.putFile("recordings/abc/denied", source), { code: "EACCES" });
+    } finally {
+      rename.mock.restore();
+      syncBuiltinESMExports();
+    }
+
+    assert.equal(existsSync(source), true);
+  });
+});
@@ -0,0 +1,188 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import type { Recording, RecordingChunk } from "@prisma/client";
+import prisma from "../db.js";
+import { getLocalStorage } from "../services/storage.js";
+import { finalizeUpload, getUploadState, storeChunk } from "../services/uploads.js";
+
+const sha256 = (data: Buffer) => createHash("sha256").update(data).digest("hex");
+
+const parts = [Buffer.from("first chunk "), Buffer.from("second chunk "), Buffer.from("third chunk")];
+const fileChecksum = sha256(Buffer.concat(parts));
+
+let root: string;
+// In-memory stand-ins for the rows uploads.ts reads and writes
+let recording: Recording;
+let chunks: RecordingChunk[];
+let jobs: { recordingId: string; kind: string }[];
+
+type ChunkWhere = {
+  id?: string;
+  recordingId?: string;
+  recordingId_sequence?: { recordingId: string; sequence: number };
+};
+
+const matches = (chunk: RecordingChunk, where: ChunkWhere) =>
+  (where.id === undefined || chunk.id === where.id) &&
+  (where.recordingId === undefined || chunk.recordingId === where.recordingId) &&
+  (where.recordingId_sequence === undefined ||
+    (chunk.recordingId === where.recordingId_sequence.recordingId &&
+      chunk.sequence === where.recordingId_sequence.sequence));
+
+function stubModel(name: string, methods: Record<string, (args: any) => Promise<unknown>>) {
+  Object.defineProperty(prisma, name, { value: methods, configurable: true });
+}
+
+before(async () => {
+  root = await mkdtemp(path.join(tmpdir(), "uploads-test-"));
+  process.env.UPLOAD_DIR = path.join(root, "uploads");
+  process.env.STORAGE_DRIVER = "local";
+  process.env.STORAGE_DIR = path.join(root, "store");
+
+  stubModel("recordingChunk", {
+    findUnique: async ({ where }) => chunks.find((chunk) => matches(chunk, where)) ?? null,
+    findUniqueOrThrow: async ({ where }) => chunks.find((chunk) => matches(chunk, where))!,
+    findMany: async ({ where }) =>
+      chunks.filter((chunk) => matches(chunk, where)).sort((a, b) => a.sequence - b.sequence),
+    create: async ({ data }) => {
+      const chunk = { id: `chunk-${chunks.length}-${data.sequence}`, createdAt: new Date(), ...data };
+      chunks.push(chunk);
+      return chunk;
+    },
+    delete: async ({ where }) => {
+      chunks = chunks.filter((chunk) => !matches(chunk, where));
+    },
+    deleteMany: async ({ where }) => {
+      const before = chunks.length;
+      chunks = chunks.filter((chunk) => !matches(chunk, where));
+      return { count: before - chunks.length };
+    },
+  });
+  stubModel("recording", {
+    updateMany: async ({ where, data }) => {
+      if (where.status && recording.status !== where.status) return { count: 0 };
+      recording = { ...recording, ...data };
+      return { count: 1 };
+    },
+    update: async ({ data }) => {
+      recording = { ...recording, ...data };
+      return recording;
+    },
+  });
+  stubModel("job", {
+    create: async ({ data }) => {
+      jobs.push(data);
+      return data;
+    },
+  });
+});
+
+beforeEach(() => {
+  recording = {
+    id: `rec-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    fileName: "take.webm",
+    mimeType: "video/webm",
+    status: "UPLOADING",
+    sessionId: null,
+  } as Recording;
+  chunks = [];
+  jobs = [];
+});
+
+after(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+async function uploadAll() {
+  for (const [sequence, data] of parts.entries()) {
+    await storeChunk(recording, sequence, data, sha256(data));
+  }
+}
+
+describe("chunk upload", () => {
+  it("rejects a chunk whose checksum does not match its contents", async () => {
+    await assert.rejects(storeChunk(recording, 0, parts[0], sha256(parts[1])), { code: "INVALID_PAYLOAD" });
+    assert.equal(chunks.length, 0);
+  });
+
+  it("accepts a re-sent chunk, but not a different one under the same number", async () => {
+    await storeChunk(recording, 0, parts[0], sha256(parts[0]));
+    await storeChunk(recording, 0, parts[0], sha256(parts[0]).toUpperCase());
+    assert.equal(chunks.length, 1);
+
+    await assert.rejects(storeChunk(recording, 0, parts[1], sha256(parts[1])), { code: "CONFLICT" });
+  });
+
+  it("tells an interrupted client where to resume", async () => {
+    await storeChunk(recording, 0, parts[0], sha256(parts[0]));
+    await storeChunk(recording, 2, parts[2], sha256(parts[2]));
+
+    const state = await getUploadState(recording);
+    assert.equal(state.nextSequence, 1);
+    assert.equal(state.receivedBytes, parts[0].length + parts[2].length);
+    assert.deepEqual(state.chunks.map((chunk) => chunk.sequence), [0, 2]);
+  });
+});
+
+describe("finalizeUpload", () => {
+  it("refuses while chunks are missing", async () => {
+    await storeChunk(recording, 0, parts[0], sha256(parts[0]));
+    await assert.rejects(finalizeUpload(recording, { totalChunks: 3 }), {
+      code: "CONFLICT",
+      message: "Missing chunks: 1, 2",
+    });
+    assert.equal(recording.status, "UPLOADING");
+  });
+
+  it("resets the upload when the assembled file does not match its checksum", async () => {
+    await uploadAll();
+
+    await assert.rejects(finalizeUpload(recording, { totalChunks: 3, checksum: sha256(Buffer.from("other")) }), {
+      code: "INVALID_PAYLOAD",
+    });
+
+    assert.equal(recording.status, "UPLOADING");
+    assert.equal(recording.storageKey, undefined);
+    assert.equal((await getUploadState(recording)).nextSequence, 0);
+    assert.equal(existsSync(path.join(root, "uploads", "chunks", recording.id)), false);
+    assert.equal(jobs.length, 0);
+
+    // Sending every chunk again then goes through
+    await uploadAll();
+    await finalizeUpload(recording, { totalChunks: 3, checksum: fileChecksum });
+    assert.equal(recording.status, "PROCESSING");
+  });
+
+  it("assembles the chunks into storage and queues processing", async () => {
+    await uploadAll();
+
+    const finalized = await finalizeUpload(recording, { totalChunks: 3, checksum: fileChecksum.toUpperCase() });
+
+    assert.equal(finalized.status, "PROCESSING");
+    assert.equal(finalized.fileSize, Buffer.concat(parts).length);
+    assert.equal(finalized.checksum, fileChecksum);
+    assert.equal(finalized.storageKey, `recordings/${recording.id}/original`);
+    assert.deepEqual(await readFile(getLocalStorage()!.resolve(finalized.storageKey!)), Buffer.concat(parts));
+    assert.equal(chunks.length, 0);
+    assert.deepEqual(jobs, [{ recordingId: recording.id, kind: "PROCESS_RECORDING", maxAttempts: undefined }]);
+  });
+
+  it("lets only one of two racing finalize requests assemble the file", async () => {
+    await uploadAll();
+    // What the loser read before the winner claimed the upload and cleared the chunks
+    const seenByTheLoser = { ...recording };
+    const uploaded = [...chunks];
+    await finalizeUpload(recording, { totalChunks: 3 });
+
+    chunks = uploaded;
+    await assert.rejects(finalizeUpload(seenByTheLoser, { totalChunks: 3 }), {
+      code: "CONFLICT",
+      message: "This upload has already been finalized",
+    });
+  });
+});
@@ -0,0 +1,3 @@
+// Socket.io event contract, shared with the backend so both sides stay in sync.
+// Usage: io(url) as Socket<ServerToClientEvents, ClientToServerEvents>
+export type * from "../../../backend/src/socket/events";